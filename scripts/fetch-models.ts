@@ -0,0 +1,23 @@
+// Descarga una sola vez el modelo de manos a public/models/, desde donde Vite lo
+// sirve y lo copia a dist/. Después la app funciona sin conexión.
+//
+//   npm run fetch:models
+import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { MODELS } from './models';
+
+for (const { url, file } of MODELS) {
+  if (existsSync(file)) {
+    console.log(`✓ ${file} ya existe`);
+    continue;
+  }
+  const response = await fetch(url);
+  if (!response.ok) {
+    console.error(`✗ ${url}: HTTP ${response.status}`);
+    process.exitCode = 1;
+    continue;
+  }
+  mkdirSync(path.dirname(file), { recursive: true });
+  writeFileSync(file, Buffer.from(await response.arrayBuffer()));
+  console.log(`✓ ${file} descargado`);
+}
@@ -0,0 +1,8 @@
+// Modelos que la app sirve desde public/models/. No van en el repositorio: se descargan
+// con `npm run fetch:models` y `vite build` se niega a empaquetar sin ellos.
+export const MODELS = [
+  {
+    url: 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task',
+    file: 'public/models/hand_landmarker.task',
+  },
+];
@@ -0,0 +1,55 @@
+// Comprueba grabaciones de gestos sin cámara: cada `partida.json` se reproduce y sus
+// jugadas se comparan con `partida.pgn` en la misma carpeta.
+//
+//   npm run test:replay                      → todas las grabaciones de recordings/
+//   npm run test:replay -- a.json b.json     → solo las indicadas
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { parseRecording } from '../src/gestures/recording';
+import { runRecording } from '../src/gestures/replayRunner';
+
+const RECORDINGS_DIR = 'recordings';
+
+function findRecordings(args: string[]): string[] {
+  if (args.length > 0) return args;
+  if (!existsSync(RECORDINGS_DIR)) return [];
+  return readdirSync(RECORDINGS_DIR)
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => path.join(RECORDINGS_DIR, file));
+}
+
+const files = findRecordings(process.argv.slice(2));
+if (files.length === 0) {
+  // Sin grabaciones no se ha comprobado nada: no puede contar como éxito
+  console.error(`✗ No hay grabaciones en ${RECORDINGS_DIR}/`);
+  process.exit(1);
+}
+
+let failures = 0;
+for (const file of files) {
+  const pgnFile = file.replace(/\.json$/, '.pgn');
+  if (!existsSync(pgnFile)) {
+    console.error(`✗ ${file}: falta ${pgnFile}`);
+    failures++;
+    continue;
+  }
+
+  try {
+    const recording = parseRecording(readFileSync(file, 'utf8'));
+    const result = runRecording(recording, readFileSync(pgnFile, 'utf8'));
+    if (result.passed) {
+      console.log(`✓ ${file} (${result.moves.length} jugadas)`);
+    } else {
+      const i = result.firstMismatch ?? 0;
+      console.error(`✗ ${file}: jugada ${i + 1} es ${result.moves[i] ?? '(ninguna)'}, se esperaba ${result.expected[i] ?? '(ninguna)'}`);
+      console.error(`  obtenido: ${result.moves.join(' ')}`);
+      console.error(`  esperado: ${result.expected.join(' ')}`);
+      failures++;
+    }
+  } catch (err) {
+    console.error(`✗ ${file}:`, err instanceof Error ? err.message : err);
+    failures++;
+  }
+}
+
+process.exitCode = failures > 0 ? 1 : 0;
@@ -0,0 +1,224 @@
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebSocket, type WebSocketServer } from 'ws';
+import type { TimeControlId } from '../src/clock/chessClock';
+import type { ClientMessage, ServerMessage } from '../src/network/protocol';
+import { startRelay } from './relay';
+
+const AFTER_E4 = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1';
+
+// Cliente de prueba que guarda los mensajes recibidos y deja esperar al siguiente
+interface TestClient {
+  send: (message: ClientMessage | Record<string, unknown>) => void;
+  next: () => Promise<ServerMessage>;
+  close: () => void;
+}
+
+let server: WebSocketServer;
+let url: string;
+const clients: WebSocket[] = [];
+
+beforeEach(async () => {
+  server = startRelay(0);
+  await new Promise<void>((resolve) => server.on('listening', () => resolve()));
+  url = `ws://localhost:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  clients.splice(0).forEach((socket) => socket.terminate());
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+async function connect(): Promise<TestClient> {
+  const socket = new WebSocket(url);
+  clients.push(socket);
+  const received: ServerMessage[] = [];
+  const waiting: ((message: ServerMessage) => void)[] = [];
+  socket.on('message', (data) => {
+    const message = JSON.parse(data.toString()) as ServerMessage;
+    const resolve = waiting.shift();
+    if (resolve) resolve(message);
+    else received.push(message);
+  });
+  await new Promise<void>((resolve, reject) => {
+    socket.once('open', () => resolve());
+    socket.once('error', reject);
+  });
+  return {
+    send: (message) => socket.send(JSON.stringify(message)),
+    next: () => {
+      const message = received.shift();
+      return message ? Promise.resolve(message) : new Promise((resolve) => waiting.push(resolve));
+    },
+    close: () => socket.close(),
+  };
+}
+
+// Sala con blancas y negras ya sentadas; devuelve los dos clientes sin mensajes pendientes
+async function startGame(timeControl: TimeControlId = 'none') {
+  const white = await connect();
+  white.send({ type: 'create', color: 'w', timeControl });
+  const welcome = await white.next();
+  if (welcome.type !== 'welcome') throw new Error(`Se esperaba welcome: ${welcome.type}`);
+  const black = await connect();
+  black.send({ type: 'join', room: welcome.room.toLowerCase() });
+  await black.next();
+  await white.next();
+  return { white, black, room: welcome.room };
+}
+
+describe('relevo de partidas', () => {
+  it('crea una sala y sienta al rival en el color libre', async () => {
+    const white = await connect();
+    white.send({ type: 'create', color: 'w', timeControl: 'blitz5' });
+    const created = await white.next();
+    expect(created).toMatchObject({
+      type: 'welcome', color: 'w', opponentConnected: false, state: { moves: [], timeControl: 'blitz5', clock: { w: 300_000, b: 300_000 } },
+    });
+    if (created.type !== 'welcome') return;
+    expect(created.room).toMatch(/^[A-Z2-9]{5}$/);
+
+    const black = await connect();
+    black.send({ type: 'join', room: ` ${created.room.toLowerCase()} ` });
+    expect(await black.next()).toMatchObject({ type: 'welcome', room: created.room, color: 'b', opponentConnected: true });
+    expect(await white.next()).toEqual({ type: 'opponent', connected: true });
+  });
+
+  it('rechaza salas que no existen y salas completas', async () => {
+    const { room } = await startGame();
+    const lost = await connect();
+    lost.send({ type: 'join', room: 'ZZZZZ' });
+    expect(await lost.next()).toEqual({ type: 'error', code: 'room-not-found', detail: 'ZZZZZ' });
+    lost.send({ type: 'join', room });
+    expect(await lost.next()).toEqual({ type: 'error', code: 'room-full', detail: '' });
+  });
+
+  it('reenvía las jugadas legales y calcula la posición en el servidor', async () => {
+    const { white, black } = await startGame();
+    white.send({ type: 'move', move: { from: 'e2', to: 'e4' }, ply: 0 });
+    expect(await black.next()).toEqual({ type: 'move', move: { from: 'e2', to: 'e4' }, ply: 0 });
+
+    // La posición que mande el cliente no cuenta
+    black.send({ type: 'move', move: { from: 'e7', to: 'e5' }, ply: 1, fen: '8/8/8/8/8/8/8/k6K w - - 0 1' });
+    await white.next();
+    white.send({ type: 'resync' });
+    expect(await white.next()).toMatchObject({
+      type: 'state',
+      state: {
+        moves: [{ from: 'e2', to: 'e4' }, { from: 'e7', to: 'e5' }],
+        fen: 'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2',
+      },
+    });
+  });
+
+  it('rechaza una jugada ilegal y devuelve el estado bueno a quien la envía', async () => {
+    const { white, black } = await startGame();
+    white.send({ type: 'move', move: { from: 'e2', to: 'e4' }, ply: 0 });
+    await black.next();
+    black.send({ type: 'move', move: { from: 'e8', to: 'e4' }, ply: 1 });
+    expect(await black.next()).toMatchObject({ type: 'state', state: { moves: [{ from: 'e2', to: 'e4' }], fen: AFTER_E4 } });
+    expect(await black.next()).toEqual({ type: 'error', code: 'illegal-move', detail: '' });
+    black.send({ type: 'move', move: null, ply: 1 });
+    expect(await black.next()).toMatchObject({ type: 'state', state: { fen: AFTER_E4 } });
+    expect(await black.next()).toEqual({ type: 'error', code: 'illegal-move', detail: '' });
+  });
+
+  it('fuera de turno o con el ply equivocado solo resincroniza', async () => {
+    const { white, black } = await startGame();
+    black.send({ type: 'move', move: { from: 'e7', to: 'e5' }, ply: 0 });
+    expect(await black.next()).toMatchObject({ type: 'state', state: { moves: [] } });
+    white.send({ type: 'move', move: { from: 'e2', to: 'e4' }, ply: 3 });
+    expect(await white.next()).toMatchObject({ type: 'state', state: { moves: [] } });
+  });
+
+  it('quien vuelve a una sala recibe la partida en curso', async () => {
+    const { white, black, room } = await startGame();
+    white.send({ type: 'move', move: { from: 'e2', to: 'e4' }, ply: 0 });
+    await black.next();
+    black.close();
+    expect(await white.next()).toEqual({ type: 'opponent', connected: false });
+
+    const back = await connect();
+    back.send({ type: 'join', room });
+    expect(await back.next()).toMatchObject({
+      type: 'welcome', color: 'b', opponentConnected: true, state: { moves: [{ from: 'e2', to: 'e4' }], fen: AFTER_E4 },
+    });
+  });
+
+  it('promociona con la pieza pedida', async () => {
+    const { white, black } = await startGame();
+    const moves: [string, string][] = [['h2', 'h4'], ['g7', 'g5'], ['h4', 'g5'], ['h7', 'h6'], ['g5', 'h6'], ['g8', 'f6'], ['h6', 'h7'], ['f6', 'g8']];
+    for (const [ply, [from, to]] of moves.entries()) {
+      const [mover, receiver] = ply % 2 === 0 ? [white, black] : [black, white];
+      mover.send({ type: 'move', move: { from, to }, ply });
+      await receiver.next();
+    }
+    white.send({ type: 'move', move: { from: 'h7', to: 'g8', promotion: 'n' }, ply: 8 });
+    expect(await black.next()).toEqual({ type: 'move', move: { from: 'h7', to: 'g8', promotion: 'n' }, ply: 8 });
+  });
+
+  it('el reloj no corre hasta la primera jugada', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { white, black } = await startGame('bullet1');
+    vi.advanceTimersByTime(90_000);
+    white.send({ type: 'flag' });
+    expect(await white.next()).toMatchObject({ type: 'state', state: { clock: { w: 60_000, b: 60_000 } } });
+
+    white.send({ type: 'move', move: { from: 'e2', to: 'e4' }, ply: 0 });
+    await black.next();
+    vi.advanceTimersByTime(20_000);
+    black.send({ type: 'resync' });
+    expect(await black.next()).toMatchObject({ type: 'state', state: { timeControl: 'bullet1', clock: { w: 60_000, b: 40_000 } } });
+  });
+
+  it('una jugada que llega con la bandera caída pierde por tiempo', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { white, black } = await startGame('bullet1');
+    white.send({ type: 'move', move: { from: 'e2', to: 'e4' }, ply: 0 });
+    await black.next();
+    vi.advanceTimersByTime(61_000);
+    black.send({ type: 'move', move: { from: 'e7', to: 'e5' }, ply: 1 });
+    const result = { type: 'result', result: { winner: 'w', reason: 'time' } };
+    expect(await black.next()).toEqual(result);
+    expect(await white.next()).toEqual(result);
+  });
+
+  it('sin control de tiempo la bandera no cuenta', async () => {
+    const { white } = await startGame();
+    white.send({ type: 'move', move: { from: 'e2', to: 'e4' }, ply: 0 });
+    white.send({ type: 'flag' });
+    expect(await white.next()).toMatchObject({ type: 'state', state: { timeControl: 'none', clock: null, result: null } });
+  });
+
+  it('la bandera solo termina la partida si ha caído en el reloj del relevo', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { white, black } = await startGame('bullet1');
+    white.send({ type: 'move', move: { from: 'e2', to: 'e4' }, ply: 0 });
+    await black.next();
+    vi.advanceTimersByTime(59_000);
+    white.send({ type: 'flag' });
+    expect(await white.next()).toMatchObject({ type: 'state', state: { clock: { w: 60_000, b: 1000 }, result: null } });
+
+    vi.advanceTimersByTime(1000);
+    white.send({ type: 'flag' });
+    const result = { type: 'result', result: { winner: 'w', reason: 'time' } };
+    expect(await white.next()).toEqual(result);
+    expect(await black.next()).toEqual(result);
+
+    // El reloj del rival también cae, pero la partida ya está decidida
+    black.send({ type: 'flag' });
+    black.send({ type: 'move', move: { from: 'e7', to: 'e5' }, ply: 1 });
+    expect(await black.next()).toEqual({ type: 'error', code: 'game-over', detail: '' });
+  });
+
+  it('sin sala solo se puede crear o unirse', async () => {
+    const client = await connect();
+    client.send({ type: 'resync' });
+    expect(await client.next()).toEqual({ type: 'error', code: 'not-in-room', detail: '' });
+    client.send({ type: 'create', color: 'b', timeControl: 'none' });
+    await client.next();
+    client.send({ type: 'create', color: 'w', timeControl: 'none' });
+    expect(await client.next()).toEqual({ type: 'error', code: 'already-in-room', detail: '' });
+  });
+});
@@ -0,0 +1,230 @@
+// Servidor de relevo para partidas en red. Empareja a dos jugadores por código
+// de sala y reenvía sus mensajes. Cada jugada se reproduce con chess.js antes de
+// guardarla, y la posición de la sala se calcula aquí, no la dicta el cliente.
+//
+//   npm run relay                    → escucha en el puerto 8787
+//   RELAY_PORT=9000 npm run relay    → en otro puerto
+import { randomInt } from 'node:crypto';
+import { pathToFileURL } from 'node:url';
+import { Chess, type Color } from 'chess.js';
+import { WebSocket, WebSocketServer } from 'ws';
+import { hasOnlyKing } from '../src/board/moves';
+import {
+  clockSnapshot, createClock, flaggedSide, pressClock, stopClock, TIME_CONTROLS, type ClockState, type TimeControlId,
+} from '../src/clock/chessClock';
+import {
+  DEFAULT_RELAY_PORT, normalizeRoomCode, parseMessage, ProtocolError, ROOM_CODE_ALPHABET, ROOM_CODE_LENGTH,
+  type ClientMessage, type NetworkMove, type NetworkResult, type RoomState, type ServerMessage,
+} from '../src/network/protocol';
+
+interface Room {
+  code: string;
+  state: RoomState;
+  game: Chess; // la partida de `state`, para validar la siguiente jugada
+  clock: ClockState | null; // con instantes de Date.now(); `state.clock` se calcula de él al enviarlo
+  players: Record<Color, WebSocket | null>;
+  drawOfferedBy: Color | null;
+}
+
+interface Seat {
+  room: Room;
+  color: Color;
+}
+
+function other(color: Color): Color {
+  return color === 'w' ? 'b' : 'w';
+}
+
+function timeControlOf(id: unknown): TimeControlId {
+  return typeof id === 'string' && Object.hasOwn(TIME_CONTROLS, id) ? id as TimeControlId : 'none';
+}
+
+// Estado de la sala con el tiempo que queda en este instante
+function roomState(room: Room): RoomState {
+  return { ...room.state, clock: room.clock && clockSnapshot(room.clock, Date.now()) };
+}
+
+function send(socket: WebSocket | null, message: ServerMessage) {
+  if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+}
+
+// Juega `move` en `game` si es legal y devuelve la jugada tal y como se guarda en la sala
+function playMove(game: Chess, move: NetworkMove | undefined): NetworkMove | null {
+  if (typeof move !== 'object' || move === null) return null;
+  try {
+    const { from, to, promotion } = game.move({ from: move.from, to: move.to, promotion: move.promotion });
+    return promotion ? { from, to, promotion } : { from, to };
+  } catch {
+    return null;
+  }
+}
+
+// ────────────────────────────────────────────────
+// Relevo
+// ────────────────────────────────────────────────
+export function startRelay(port: number): WebSocketServer {
+  const rooms = new Map<string, Room>();
+  const server = new WebSocketServer({ port });
+
+  const newRoomCode = () => {
+    let code: string;
+    do {
+      code = Array.from({ length: ROOM_CODE_LENGTH }, () => ROOM_CODE_ALPHABET[randomInt(ROOM_CODE_ALPHABET.length)]).join('');
+    } while (rooms.has(code));
+    return code;
+  };
+
+  const welcome = (room: Room, color: Color) => {
+    send(room.players[color], {
+      type: 'welcome',
+      room: room.code,
+      color,
+      state: roomState(room),
+      opponentConnected: room.players[other(color)] !== null,
+    });
+    send(room.players[other(color)], { type: 'opponent', connected: true });
+  };
+
+  const finish = (room: Room, result: NetworkResult) => {
+    room.state.result = result;
+    room.clock = room.clock && stopClock(room.clock, Date.now());
+    room.drawOfferedBy = null;
+    send(room.players.w, { type: 'result', result });
+    send(room.players.b, { type: 'result', result });
+  };
+
+  // La bandera que cae es la del lado con el turno; sin material para dar mate el rival no gana
+  const finishOnTime = (room: Room) => {
+    const winner = other(room.game.turn());
+    finish(room, { winner: hasOnlyKing(room.game, winner) ? null : winner, reason: 'time' });
+  };
+
+  const handle = (socket: WebSocket, seat: Seat | null, message: ClientMessage): Seat | null => {
+    if (message.type === 'create') {
+      if (seat) throw new ProtocolError('already-in-room');
+      const color: Color = message.color === 'b' ? 'b' : 'w';
+      const timeControl = timeControlOf(message.timeControl);
+      const game = new Chess();
+      const room: Room = {
+        code: newRoomCode(),
+        state: { startFen: game.fen(), moves: [], fen: game.fen(), result: null, timeControl, clock: null },
+        game,
+        clock: timeControl === 'none' ? null : createClock(TIME_CONTROLS[timeControl], null, Date.now()),
+        players: { w: null, b: null },
+        drawOfferedBy: null,
+      };
+      room.players[color] = socket;
+      rooms.set(room.code, room);
+      welcome(room, color);
+      return { room, color };
+    }
+
+    if (message.type === 'join') {
+      if (seat) throw new ProtocolError('already-in-room');
+      const room = rooms.get(normalizeRoomCode(String(message.room)));
+      if (!room) throw new ProtocolError('room-not-found', String(message.room));
+      // Un hueco libre puede ser el del rival o el de alguien que se ha desconectado
+      const color = (['w', 'b'] as const).find((c) => room.players[c] === null);
+      if (!color) throw new ProtocolError('room-full');
+      room.players[color] = socket;
+      welcome(room, color);
+      return { room, color };
+    }
+
+    if (!seat) throw new ProtocolError('not-in-room');
+    const { room, color } = seat;
+    const opponent = room.players[other(color)];
+
+    switch (message.type) {
+      case 'move': {
+        const { state, game } = room;
+        if (state.result) throw new ProtocolError('game-over');
+        if (game.turn() !== color || message.ply !== state.moves.length) {
+          // Cliente desincronizado: devolverle el estado bueno
+          send(socket, { type: 'state', state: roomState(room) });
+          break;
+        }
+        const now = Date.now();
+        // Una jugada que llega con la bandera ya caída no cuenta: la partida termina por tiempo
+        if (room.clock && flaggedSide(room.clock, now) === color) {
+          finishOnTime(room);
+          break;
+        }
+        const move = playMove(game, message.move);
+        if (!move) {
+          send(socket, { type: 'state', state: roomState(room) });
+          throw new ProtocolError('illegal-move');
+        }
+        state.moves.push(move);
+        state.fen = game.fen();
+        if (room.clock) room.clock = game.isGameOver() ? stopClock(room.clock, now) : pressClock(room.clock, game.turn(), now);
+        room.drawOfferedBy = null;
+        send(opponent, { type: 'move', move, ply: message.ply });
+        break;
+      }
+      case 'resign':
+        if (!room.state.result) finish(room, { winner: other(color), reason: 'resign' });
+        break;
+      case 'draw-offer':
+        if (room.state.result) break;
+        room.drawOfferedBy = color;
+        send(opponent, { type: 'draw-offer' });
+        break;
+      case 'draw-response':
+        if (room.drawOfferedBy !== other(color)) break;
+        if (message.accept) {
+          finish(room, { winner: null, reason: 'draw-agreed' });
+        } else {
+          room.drawOfferedBy = null;
+          send(opponent, { type: 'draw-declined' });
+        }
+        break;
+      case 'flag':
+        if (room.state.result) break;
+        // Solo cuenta el reloj del relevo: si aquí no ha caído, el cliente recibe el tiempo bueno
+        if (room.clock && flaggedSide(room.clock, Date.now())) finishOnTime(room);
+        else send(socket, { type: 'state', state: roomState(room) });
+        break;
+      case 'resync':
+        send(socket, { type: 'state', state: roomState(room) });
+        break;
+      default:
+        throw new ProtocolError('unknown-message', (message as { type: string }).type);
+    }
+    return seat;
+  };
+
+  server.on('connection', (socket) => {
+    let seat: Seat | null = null;
+
+    socket.on('message', (data) => {
+      try {
+        seat = handle(socket, seat, parseMessage<ClientMessage>(data.toString()));
+      } catch (err) {
+        if (!(err instanceof ProtocolError)) console.error('Error en el relevo:', err);
+        const error = err instanceof ProtocolError ? err : new ProtocolError('internal');
+        send(socket, { type: 'error', code: error.code, detail: error.detail });
+      }
+    });
+
+    socket.on('close', () => {
+      if (!seat) return;
+      const { room, color } = seat;
+      room.players[color] = null;
+      if (room.drawOfferedBy === color) room.drawOfferedBy = null;
+      if (!room.players.w && !room.players.b) {
+        rooms.delete(room.code);
+      } else {
+        send(room.players[other(color)], { type: 'opponent', connected: false });
+      }
+    });
+  });
+
+  return server;
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.RELAY_PORT) || DEFAULT_RELAY_PORT;
+  const server = startRelay(port);
+  server.on('listening', () => console.log(`Relevo de partidas escuchando en ws://localhost:${port}`));
+}
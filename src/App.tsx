@@ -1,532 +1,2351 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
-import { Chess, type Square } from 'chess.js';
-import { Chessboard, type PieceDropHandlerArgs } from 'react-chessboard';
+import { useState, useEffect, useRef, useCallback, useMemo, type CSSProperties } from 'react';
+import { Chess, type Color, type Move, type PieceSymbol, type Square } from 'chess.js';
+import { Chessboard, type Arrow, type PieceDropHandlerArgs } from 'react-chessboard';
 import Webcam from 'react-webcam';
-import { FilesetResolver, HandLandmarker, DrawingUtils } from '@mediapipe/tasks-vision';
+import { orientationFor, type BoardOrientation } from './board/geometry';
+import { hasOnlyKing, isPromotionMove } from './board/moves';
+import {
+  cloneGame, exportPgn, gameResult, importGameRecord, positionsOf, winnerResult, type GameMode, type GameResult,
+} from './board/record';
+import {
+  clockSnapshot, createClock, flaggedSide, pgnTimeControl, pressClock, restoreClock, stopClock, switchClock, thinkTimeFor,
+  timeLeft, TIME_CONTROLS, type ClockState, type TimeControlId,
+} from './clock/chessClock';
+import { deleteGame, latestUnfinishedGame, listGames, newGameId, saveGame, type SavedGame } from './storage/gameStore';
+import { bundledOpeningBook, chooseBookMove } from './openings/openingBook';
+import { isSolutionMove, parsePuzzleFile, type PuzzleSet } from './puzzles/puzzles';
+import {
+  clearPuzzleProgress, EMPTY_PROGRESS, firstPendingPuzzle, loadPuzzleProgress, puzzleKey, recordPuzzleResult, savePuzzleProgress,
+  type PuzzleProgress,
+} from './puzzles/puzzleProgress';
+import PromotionPicker from './components/PromotionPicker';
+import MoveList from './components/MoveList';
+import PgnPanel from './components/PgnPanel';
+import HandCursor from './components/HandCursor';
+import NetworkPanel, { type DrawOffer } from './components/NetworkPanel';
+import AnalysisPanel from './components/AnalysisPanel';
+import ClockPanel from './components/ClockPanel';
+import EvalBar from './components/EvalBar';
+import GestureBindingsPanel from './components/GestureBindingsPanel';
+import GameLibrary from './components/GameLibrary';
+import OpeningExplorer from './components/OpeningExplorer';
+import PuzzlePanel, { type PuzzleStatus } from './components/PuzzlePanel';
+import {
+  clearCalibration, createCalibration, DEFAULT_CALIBRATION, getTransforms, loadCalibration, saveCalibration,
+  type Calibration, type CalibrationTarget,
+} from './calibration/calibration';
+import type { ArScene } from './calibration/arOverlay';
+import { applyHomography, type Point } from './calibration/homography';
+import type { GestureEvent } from './gestures/gestureEngine';
+import {
+  DWELL_TIMES_MS, DwellSelector, dwellToPinch, INPUT_MODES, loadInputSettings, saveInputSettings, type InputMode, type InputSettings,
+} from './gestures/dwellSelector';
+import {
+  keepsGrabOnOpenPalm, loadGestureBindings, saveGestureBindings,
+  type CommandGesture, type CommandHold, type GestureBindings, type GestureCommand,
+} from './gestures/commandGestures';
+import { interpretGesture } from './gestures/dragLogic';
+import { continuingEvent } from './gestures/gesturePipeline';
+import { HAND_ASSIGNMENTS, type HandAssignment } from './gestures/handAssignment';
+import { frameHands, parseRecording, ReplaySource, SessionRecorder } from './gestures/recording';
+import { downloadFile } from './utils/download';
+import { BoardWatcher, inferMove } from './vision/boardVision';
+import { HandTracker } from './vision/handTracker';
+import type { TrackerFrame } from './vision/trackingProtocol';
+import { normalizeRoomCode, type ClientMessage, type NetworkResult, type RoomState, type ServerMessage } from './network/protocol';
+import { clockFromRoomState, gameFromRoomState, RoomClient } from './network/roomClient';
+import { BOOK_DIFFICULTIES, DIFFICULTY_SETTINGS, SearchCancelledError, StockfishEngine, type Difficulty, type EngineMove } from './engine/stockfish';
+import { analyzePositions, HINT_SETTINGS, reviewMoves, summarize, type PositionEval } from './engine/gameAnalysis';
+import { errorText, protocolErrorText } from './i18n/errors';
+import { I18nContext, loadLanguageSettings, saveLanguageSettings, type LanguageSettings } from './i18n/i18n';
+import { LANGUAGE_NAMES, MESSAGES, type Language, type Messages } from './i18n/messages';
+import { speak, speechAvailable } from './i18n/speech';
+
+type SideChoice = 'white' | 'black' | 'random';
+
+// Los nombres de los jugadores en las cabeceras PGN dependen del idioma: al importar valen todos
+const CATALOGS = Object.values(MESSAGES);
+
+function isPlayerName(name: string | undefined): boolean {
+  return CATALOGS.some((t) => t.playerName === name);
+}
+
+function areLocalPlayerNames(white: string | undefined, black: string | undefined): boolean {
+  return CATALOGS.some((t) => t.localPlayerNames.w === white && t.localPlayerNames.b === black);
+}
+
+function colorFor(choice: SideChoice): Color {
+  if (choice === 'random') return Math.random() < 0.5 ? 'w' : 'b';
+  return choice === 'white' ? 'w' : 'b';
+}
+
+// Sala de la partida en red en la que estamos
+interface OnlineRoom {
+  code: string;
+  opponentConnected: boolean;
+  drawOffer: DrawOffer;
+  result: NetworkResult | null;
+}
+
+// Al caer la bandera gana el rival, salvo que solo le quede el rey
+function timeForfeitWinner(game: Chess, loser: Color): Color | null {
+  const winner: Color = loser === 'w' ? 'b' : 'w';
+  return hasOnlyKing(game, winner) ? null : winner;
+}
+
+function timeForfeitText(t: Messages, game: Chess, loser: Color): string {
+  const winner = timeForfeitWinner(game, loser);
+  return winner ? t.timeForfeitWin(loser, winner) : t.timeForfeitDraw(loser);
+}
+
+function resignationText(t: Messages, loser: Color, names: Record<Color, string>): string {
+  return t.resignation(names[loser], loser === 'w' ? 'b' : 'w');
+}
+
+function onlineResultText(t: Messages, result: NetworkResult, playerColor: Color, game: Chess): string {
+  if (result.reason === 'draw-agreed') return t.drawAgreed;
+  if (result.reason === 'time') return timeForfeitText(t, game, game.turn());
+  return result.winner === playerColor ? t.opponentResigned : t.youResigned;
+}
+
+const SIDES: Color[] = ['w', 'b'];
+
+// Color de la parte resaltada de cada paso de las instrucciones de gestos
+const STEP_COLORS = ['text-cyan-300', 'text-green-300', 'text-yellow-300', 'text-red-300'];
+
+// Pausa entre jugadas al ver una partida guardada
+const REPLAY_STEP_MS = 1000;
+
+// Pausa antes de que el rival responda en un problema
+const PUZZLE_REPLY_MS = 600;
+
+// Pausa antes de una jugada de libro de la IA (sin ella respondería al instante)
+const BOOK_MOVE_MS = 400;
+
+// Problema en curso dentro de una colección
+interface PuzzleRun {
+  set: PuzzleSet;
+  index: number;
+  result: boolean | null; // resultado anotado en el progreso (null = aún no)
+  revealed: boolean; // se ha pedido ver la jugada
+}
+
+// Identidad de la partida en curso dentro de "Mis partidas"
+function freshGameKey() {
+  return { id: newGameId(), createdAt: Date.now() };
+}
+
+// Cursor y arrastre de la mano de un lado
+interface HandState {
+  cursor: boolean; // visible; su posición se fija directamente en el DOM (placeCursor)
+  highlightedSquare: Square | null;
+  dragStartSquare: Square | null;
+  // Gesto de orden que se está manteniendo y rótulo de la permanencia en curso; el progreso de
+  // su anillo cambia en cada fotograma y se fija directamente en el DOM (placeRing)
+  hold: CommandGesture | null;
+  dwell: string | null;
+}
+
+const NO_HANDS: Record<Color, HandState> = {
+  w: { cursor: false, highlightedSquare: null, dragStartSquare: null, hold: null, dwell: null },
+  b: { cursor: false, highlightedSquare: null, dragStartSquare: null, hold: null, dwell: null },
+};
+
+const HIGHLIGHT_STYLE: CSSProperties = {
+  backgroundColor: 'rgba(255, 215, 0, 0.4)',
+  boxShadow: 'inset 0 0 15px rgba(255, 215, 0, 0.5)',
+  borderRadius: '4px'
+};
+
+const SELECTED_STYLE: CSSProperties = {
+  backgroundColor: 'rgba(34, 197, 94, 0.7)',
+  boxShadow: 'inset 0 0 20px rgba(34, 197, 94, 0.9)',
+  borderRadius: '4px'
+};
+
+// Destinos legales de la pieza elegida: un punto en las casillas vacías y un aro en las capturas
+const LEGAL_MOVE_STYLE: CSSProperties = {
+  background: 'radial-gradient(circle, rgba(34, 197, 94, 0.75) 20%, transparent 22%)',
+};
+
+const LEGAL_CAPTURE_STYLE: CSSProperties = {
+  background: 'radial-gradient(circle, transparent 60%, rgba(34, 197, 94, 0.75) 62%)',
+};
 
 function App() {
+  // Idioma de la interfaz y anuncio hablado de las jugadas
+  const [languageSettings, setLanguageSettings] = useState<LanguageSettings>(loadLanguageSettings);
+  const t = MESSAGES[languageSettings.language];
   const [game, setGame] = useState<Chess>(new Chess());
-  const [difficulty, setDifficulty] = useState<'amateur' | 'media' | 'alta'>('amateur');
-  const [boardOrientation, setBoardOrientation] = useState<'white' | 'black'>('white');
-  const [statusMessage, setStatusMessage] = useState('¡Nueva partida! Juegas con blancas');
-  const [gestureStatus, setGestureStatus] = useState('Esperando detección de manos...');
+  const [difficulty, setDifficulty] = useState<Difficulty>('amateur');
+  // En los niveles bajos la IA abre con jugadas del libro
+  const [playBookMoves, setPlayBookMoves] = useState(true);
+  const [sideChoice, setSideChoice] = useState<SideChoice>('white');
+  const [playerColor, setPlayerColor] = useState<Color>('w');
+  const [boardOrientation, setBoardOrientation] = useState<BoardOrientation>('white');
+  const [statusMessage, setStatusMessage] = useState(() => t.newGameAs('w'));
+  const [gestureStatus, setGestureStatus] = useState(t.waitingForHands);
   const webcamRef = useRef<Webcam>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const handLandmarkerRef = useRef<HandLandmarker | null>(null);
+  // Seguimiento de manos en un worker: el canvas de la cámara recibe cada fotograma ya dibujado
+  const trackerRef = useRef<HandTracker | null>(null);
+  const frameHandlerRef = useRef<((frame: TrackerFrame) => void) | null>(null);
+  const trackingStatsRef = useRef<HTMLParagraphElement>(null);
+  const engineRef = useRef<StockfishEngine | null>(null);
   const boardContainerRef = useRef<HTMLDivElement>(null);
-  const [cursorPos, setCursorPos] = useState<{ x: number; y: number } | null>(null);
-  const cursorPosRef = useRef<{ x: number; y: number } | null>(null);
-  const [highlightedSquare, setHighlightedSquare] = useState<Square | null>(null);
-  const [selectedSquare, setSelectedSquare] = useState<Square | null>(null);
   const cameraWidth = 360;
   const cameraHeight = 270;
   const boardSize = 620;
 
-  // Estados para el arrastre con pellizco
-  const [isDragging, setIsDragging] = useState(false);
-  const [dragStartSquare, setDragStartSquare] = useState<Square | null>(null);
-  const lastPinchTime = useRef<number>(0);
-  const isPinchingRef = useRef<boolean>(false);
-  const lastDetectionTime = useRef<number>(0);
-  const pinchDebounceRef = useRef<number>(0);
+  // Modo de juego: contra la IA o dos personas con una mano cada una
+  const [gameMode, setGameMode] = useState<GameMode>('ai');
+  const [handAssignment, setHandAssignment] = useState<HandAssignment>('half');
+  const twoPlayer = gameMode === 'local';
+  const online = gameMode === 'online';
+
+  // Partida en red a través del servidor de relevo (server/relay.ts)
+  const roomClientRef = useRef<RoomClient | null>(null);
+  const [onlineRoom, setOnlineRoom] = useState<OnlineRoom | null>(null);
+  const [connecting, setConnecting] = useState(false);
+  const leaveRoom = useCallback(() => {
+    const client = roomClientRef.current;
+    roomClientRef.current = null;
+    client?.close();
+    setOnlineRoom(null);
+  }, []);
+
+  // Estados para el arrastre con pellizco, uno por lado
+  const [hands, setHands] = useState<Record<Color, HandState>>(NO_HANDS);
+  // Último evento de cada lado recibido del worker, que solo envía los cambios
+  const lastEventsRef = useRef<Record<Color, GestureEvent | null>>({ w: null, b: null });
+  // Posición del cursor de cada mano (0-1 dentro del tablero) y su elemento
+  const cursorPositionsRef = useRef<Record<Color, Point | null>>({ w: null, b: null });
+  const cursorElementsRef = useRef<Record<Color, HTMLDivElement | null>>({ w: null, b: null });
+  // Gestos de orden (palma abierta, pulgar arriba...) y qué hace cada uno
+  const [gestureBindings, setGestureBindings] = useState<GestureBindings>(loadGestureBindings);
+  // Pellizco o selección por permanencia, para quien no puede pellizcar con fiabilidad
+  const [inputSettings, setInputSettings] = useState<InputSettings>(loadInputSettings);
+  const dwellSelectorsRef = useRef<Record<Color, DwellSelector> | null>(null);
+  const updateHand = useCallback((side: Color, changes: Partial<HandState>) => {
+    setHands((prev) => {
+      // Llega un evento por fotograma: sin cambios no hay que volver a renderizar
+      const current = prev[side];
+      if ((Object.keys(changes) as (keyof HandState)[]).every((key) => current[key] === changes[key])) return prev;
+      return { ...prev, [side]: { ...current, ...changes } };
+    });
+  }, []);
+
+  // El cursor de la mano se mueve directamente en el DOM, sin un render de React por fotograma
+  const placeCursor = useCallback((side: Color, boardPoint?: Point) => {
+    if (boardPoint) cursorPositionsRef.current[side] = boardPoint;
+    const element = cursorElementsRef.current[side];
+    const position = cursorPositionsRef.current[side];
+    const boardRect = boardContainerRef.current?.getBoundingClientRect();
+    if (!element || !position || !boardRect) return;
+    element.style.transform = `translate(${position.x * boardRect.width}px, ${position.y * boardRect.height}px) translate(-50%, -50%)`;
+  }, []);
+
+  // Lo mismo con el anillo de progreso; con permanencia y gesto mantenido a la vez se ve la permanencia
+  const ringProgressRef = useRef<Record<Color, { hold: number | null; dwell: number | null }>>({
+    w: { hold: null, dwell: null },
+    b: { hold: null, dwell: null },
+  });
+  const ringElementsRef = useRef<Record<Color, SVGCircleElement | null>>({ w: null, b: null });
+  const placeRing = useCallback((side: Color) => {
+    const { hold, dwell } = ringProgressRef.current[side];
+    const element = ringElementsRef.current[side];
+    if (element) element.style.strokeDashoffset = String(1 - (dwell ?? hold ?? 0));
+  }, []);
+
+  // Sin cámara o sin modelo se juega solo con el ratón
+  const [cameraAvailable, setCameraAvailable] = useState(true);
+  const [handTrackingAvailable, setHandTrackingAvailable] = useState(true);
+  const mouseOnly = !cameraAvailable || !handTrackingAvailable;
+
+  // Grabación y reproducción de sesiones de landmarks
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [replaySource, setReplaySource] = useState<ReplaySource | null>(null);
+
+  // Reloj de ajedrez: null = partida sin control de tiempo
+  const [timeControlId, setTimeControlId] = useState<TimeControlId>('none');
+  const [pressToConfirm, setPressToConfirm] = useState(false);
+  const [clock, setClock] = useState<ClockState | null>(null);
+  const [timeForfeit, setTimeForfeit] = useState<Color | null>(null);
+  // Lado que se ha rendido fuera de una partida en red (en red lo lleva la sala)
+  const [resigned, setResigned] = useState<Color | null>(null);
+  const timeControl = timeControlId === 'none' ? null : TIME_CONTROLS[timeControlId];
+  // Lado que ya ha movido pero aún no ha pulsado su reloj
+  const clockAwaitingPress = clock?.running && clock.running !== game.turn() ? clock.running : null;
+  const startClock = useCallback((turn: Color) => {
+    setClock(timeControl && createClock(timeControl, turn, performance.now()));
+    setTimeForfeit(null);
+    setResigned(null);
+  }, [timeControl]);
+
+  // Partidas guardadas en IndexedDB: la actual se guarda tras cada jugada
+  const [savedGameKey, setSavedGameKey] = useState(freshGameKey);
+  const [savedGames, setSavedGames] = useState<SavedGame[]>([]);
+  const [resumeOffer, setResumeOffer] = useState<SavedGame | null>(null);
+  const [autoPlay, setAutoPlay] = useState(false);
+  // Jugadas y resultado del último registro guardado o abierto: abrir o reproducir una
+  // partida no la vuelve a guardar (ni la sube en la lista), solo jugar o terminarla
+  const storedGameRef = useRef<{ id: string; moves: string; result: GameResult } | null>(null);
+
+  // Navegación por la partida: null = posición actual
+  const [viewPly, setViewPly] = useState<number | null>(null);
+  const positions = useMemo(() => positionsOf(game), [game]);
+  const moveHistory = useMemo(() => game.history(), [game]);
+  const isViewingPast = viewPly !== null && viewPly < moveHistory.length;
+  const displayedFen = isViewingPast ? positions[viewPly] : game.fen();
+  const displayedPly = isViewingPast ? viewPly : moveHistory.length;
+
+  // Apertura y continuaciones del libro en la posición que se muestra
+  const opening = useMemo(() => bundledOpeningBook().openingAt(positions.slice(0, displayedPly + 1)), [positions, displayedPly]);
+  const bookMoves = useMemo(() => bundledOpeningBook().movesAt(displayedFen), [displayedFen]);
+
+  // Análisis de la partida terminada: vale mientras no cambie la partida analizada
+  const [analyzedGame, setAnalyzedGame] = useState<Chess | null>(null);
+  const [analysisEvals, setAnalysisEvals] = useState<PositionEval[]>([]);
+  const gameFinished = game.isGameOver() || !!timeForfeit || !!resigned || !!onlineRoom?.result;
+  const analysisActive = analyzedGame === game;
+  const analyzing = analysisActive && analysisEvals.length < positions.length;
+  const verboseHistory = useMemo(() => game.history({ verbose: true }), [game]);
+  const moveReviews = useMemo(
+    () => analysisActive ? reviewMoves(verboseHistory, analysisEvals) : [],
+    [analysisActive, verboseHistory, analysisEvals],
+  );
+  const analysisSummary = useMemo(
+    () => analysisActive && !analyzing ? summarize(moveReviews) : null,
+    [analysisActive, analyzing, moveReviews],
+  );
+
+  // Motivo por el que ahora no se puede mover, si lo hay
+  const moveLockReason = isViewingPast ? t.lockViewingPast
+    : online && !onlineRoom ? t.lockNoRoom
+      : onlineRoom?.result || timeForfeit || resigned ? t.lockGameOver
+        : clockAwaitingPress ? t.lockClockPress
+          : null;
+
+  // Promoción pendiente: el movimiento no llega a chess.js hasta elegir pieza
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: Square; to: Square } | null>(null);
+  const [hoveredPromotion, setHoveredPromotion] = useState<PieceSymbol | null>(null);
+  const promotionChoiceRefs = useRef<Partial<Record<PieceSymbol, HTMLButtonElement | null>>>({});
+
+  // Calibración cámara → tablero (una por cámara)
+  const [cameraDeviceId, setCameraDeviceId] = useState('default');
+  const [calibration, setCalibration] = useState<Calibration>(DEFAULT_CALIBRATION);
+  const [calibrationPoints, setCalibrationPoints] = useState<Point[] | null>(null);
+  // Qué se está calibrando con calibrationPoints
+  const [calibrationTarget, setCalibrationTarget] = useState<CalibrationTarget>('hands');
+  // Superficie propia de la vista AR (null = se dibuja sobre la región de las manos)
+  const [arSurface, setArSurface] = useState<Calibration | null>(null);
+  const transforms = useMemo(() => getTransforms(calibration) ?? getTransforms(DEFAULT_CALIBRATION)!, [calibration]);
+
+  // Entrenamiento con problemas: la partida empieza en la posición del problema y el rival responde con la solución
+  const [puzzleRun, setPuzzleRun] = useState<PuzzleRun | null>(null);
+  const [puzzleProgress, setPuzzleProgress] = useState<PuzzleProgress>(loadPuzzleProgress);
+  const puzzle = puzzleRun ? puzzleRun.set.puzzles[puzzleRun.index] : null;
+  const puzzleStatus: PuzzleStatus = puzzle && (moveHistory.length >= puzzle.solution.length || game.isCheckmate()) ? 'solved'
+    : puzzleRun?.result === false ? 'failed'
+      : 'solving';
+
+  // Cuenta solo el primer resultado de cada intento, y en el progreso solo el del primer intento:
+  // repetir un problema no cambia su resultado ni la racha
+  const recordPuzzle = useCallback((solved: boolean) => {
+    if (!puzzleRun || puzzleRun.result !== null) return;
+    const current = puzzleRun.set.puzzles[puzzleRun.index];
+    const next = recordPuzzleResult(puzzleProgress, puzzleKey(puzzleRun.set, current), current, solved);
+    if (next !== puzzleProgress) {
+      setPuzzleProgress(next);
+      savePuzzleProgress(next);
+    }
+    setPuzzleRun({ ...puzzleRun, result: solved });
+  }, [puzzleRun, puzzleProgress]);
 
   // ────────────────────────────────────────────────
   // Lógica ajedrez
   // ────────────────────────────────────────────────
-  const makeMove = useCallback((source: Square, target: Square): boolean => {
+  const makeMove = useCallback((source: Square, target: Square, promotion?: PieceSymbol): boolean => {
     try {
-      const gameCopy = new Chess(game.fen());
-      const move = gameCopy.move({ from: source, to: target, promotion: 'q' });
+      const gameCopy = cloneGame(game);
+      const move = gameCopy.move({ from: source, to: target, promotion });
       if (move === null) {
-        setStatusMessage('Movimiento inválido');
+        setStatusMessage(t.invalidMove);
         return false;
       }
+      // Problema: solo vale la jugada de la solución; las del rival las juega la app
+      if (puzzle) {
+        if (!isSolutionMove(puzzle, gameCopy.history().length - 1, move, gameCopy)) {
+          setStatusMessage(t.puzzleWrong(move.san));
+          recordPuzzle(false);
+          return false;
+        }
+        setGame(gameCopy);
+        if (gameCopy.history().length >= puzzle.solution.length || gameCopy.isCheckmate()) {
+          setStatusMessage(t.puzzleSolved(move.san));
+          recordPuzzle(true);
+        } else {
+          setStatusMessage(t.puzzleCorrect(move.san));
+        }
+        return true;
+      }
       setGame(gameCopy);
-      setStatusMessage('¡Movimiento hecho!');
+      setStatusMessage(t.moveDone);
+      // El reloj se pulsa solo, salvo que quien mueve deba confirmar la jugada pulsándolo él
+      const now = performance.now();
+      const awaitPress = pressToConfirm && !online && (twoPlayer || move.color === playerColor);
+      if (gameCopy.isGameOver()) {
+        setClock((prev) => prev && stopClock(prev, now));
+      } else if (!awaitPress) {
+        setClock((prev) => prev && pressClock(prev, gameCopy.turn(), now));
+      }
+      // Las jugadas propias se envían a la sala; las que llegan de ella son del rival
+      if (online && move.color === playerColor) {
+        roomClientRef.current?.send({
+          type: 'move',
+          move: { from: move.from, to: move.to, promotion: move.promotion },
+          ply: gameCopy.history().length - 1,
+        });
+      }
       return true;
-    } catch (error) {
-      setStatusMessage('Error en movimiento');
+    } catch {
+      setStatusMessage(t.moveError);
       return false;
     }
-  }, [game]);
+  }, [game, online, playerColor, pressToConfirm, twoPlayer, puzzle, recordPuzzle, t]);
 
-  const makeAIMove = useCallback(() => {
-    if (game.isGameOver() || game.isDraw() || game.turn() !== 'b') return;
-    const possibleMoves = game.moves({ verbose: true });
-    if (possibleMoves.length === 0) return;
-    const randomIndex = Math.floor(Math.random() * possibleMoves.length);
-    const gameCopy = new Chess(game.fen());
-    gameCopy.move(possibleMoves[randomIndex]);
+  const aiColor: Color = playerColor === 'w' ? 'b' : 'w';
+  // Posición en la que el motor falló o no devolvió jugada; la IA espera a que se pida reintentar
+  const [engineFailedFen, setEngineFailedFen] = useState<string | null>(null);
+  const engineFailed = engineFailedFen === game.fen();
+  const isAIThinking = gameMode === 'ai' && game.turn() === aiColor && !game.isGameOver()
+    && !clockAwaitingPress && !timeForfeit && !resigned && !autoPlay && !puzzleRun && !engineFailed;
+  const isHumanTurn = twoPlayer || game.turn() === playerColor;
+
+  // Vista AR: la partida dibujada en perspectiva sobre la superficie calibrada de la cámara
+  const [arView, setArView] = useState(false);
+  // Jugada sugerida por el motor en el turno de una persona (no en partidas en red)
+  const [showHint, setShowHint] = useState(false);
+  const [hint, setHint] = useState<{ fen: string; move: EngineMove } | null>(null);
+  const hintWanted = showHint && !online && !puzzleRun && isHumanTurn && !gameFinished;
+  const currentHint = hintWanted && !isViewingPast && hint?.fen === game.fen() ? hint.move : null;
+
+  // Tablero real: la cámara mira un tablero de verdad y las jugadas se reconocen por imagen
+  const [boardMode, setBoardMode] = useState(false);
+  const boardWatcherRef = useRef<BoardWatcher | null>(null);
+  // Jugadas de la partida que ya están hechas también en el tablero real
+  const [physicalSync, setPhysicalSync] = useState<{ gameId: string; ply: number } | null>(null);
+  // Jugadas que encajan con la imagen y entre las que hay que elegir
+  const [physicalCandidates, setPhysicalCandidates] = useState<Move[] | null>(null);
+  // null = hay que dar el tablero real por colocado como la posición actual (partida nueva o cambiada)
+  const physicalPly = boardMode && physicalSync?.gameId === savedGameKey.id && physicalSync.ply <= moveHistory.length
+    ? physicalSync.ply : null;
+  // Jugada de la IA o del rival que falta reproducir en el tablero real
+  const pendingPhysicalMove = physicalPly !== null && physicalPly < moveHistory.length ? verboseHistory[physicalPly] : null;
+
+  const makeAIMove = useCallback((move: EngineMove) => {
+    const gameCopy = cloneGame(game);
+    gameCopy.move(move);
     setGame(gameCopy);
-    setStatusMessage(`IA movió... tu turno`);
+    const now = performance.now();
+    setClock((prev) => prev && (gameCopy.isGameOver() ? stopClock(prev, now) : pressClock(prev, gameCopy.turn(), now)));
+    setStatusMessage(t.aiMoved);
+  }, [game, t]);
+
+  const changeTimeControl = useCallback((id: TimeControlId) => {
+    setTimeControlId(id);
+    // El nuevo control empieza a contar desde ya, sin reiniciar la partida
+    setClock(id === 'none' ? null : createClock(TIME_CONTROLS[id], game.isGameOver() ? null : game.turn(), performance.now()));
+    setTimeForfeit(null);
   }, [game]);
 
+  const confirmMove = useCallback(() => {
+    setClock((prev) => prev && pressClock(prev, game.turn(), performance.now()));
+    setStatusMessage(t.clockPressed);
+  }, [game, t]);
+
+  // La bandera se mira cuando se agota el tiempo del lado que juega (el panel del reloj se repinta solo)
   useEffect(() => {
-    if (game.turn() === 'b' && !game.isGameOver() && !game.isDraw()) {
-      const timer = setTimeout(makeAIMove, 800);
+    const running = clock?.running;
+    if (!clock || !running) return;
+    let timer: ReturnType<typeof setTimeout>;
+    const check = () => {
+      const now = performance.now();
+      const flagged = flaggedSide(clock, now);
+      if (!flagged) {
+        timer = setTimeout(check, timeLeft(clock, running, now));
+        return;
+      }
+      setClock(stopClock(clock, now));
+      // En red decide el reloj del relevo: responde con el resultado o con el tiempo bueno
+      if (online) roomClientRef.current?.send({ type: 'flag' });
+      else setTimeForfeit(flagged);
+    };
+    timer = setTimeout(check, timeLeft(clock, running, performance.now()));
+    return () => clearTimeout(timer);
+  }, [clock, online]);
+
+  // ────────────────────────────────────────────────
+  // Motor Stockfish
+  // ────────────────────────────────────────────────
+  // Reintentar tras un fallo cambia la generación y arranca un motor nuevo
+  const [engineGeneration, setEngineGeneration] = useState(0);
+  useEffect(() => {
+    const engine = new StockfishEngine();
+    engineRef.current = engine;
+    return () => {
+      engine.terminate();
+      engineRef.current = null;
+    };
+  }, [engineGeneration]);
+
+  useEffect(() => {
+    if (!isAIThinking || !engineRef.current) return;
+    // Mientras la posición esté en el libro, la IA elige una continuación según sus líneas del libro
+    const bookMove = playBookMoves && BOOK_DIFFICULTIES.includes(difficulty)
+      ? chooseBookMove(bundledOpeningBook().movesAt(game.fen()))
+      : null;
+    if (bookMove) {
+      const timer = setTimeout(() => makeAIMove(bookMove), BOOK_MOVE_MS);
       return () => clearTimeout(timer);
     }
-  }, [game, difficulty, makeAIMove]);
+    // Un cambio de partida o de dificultad aborta la búsqueda en curso
+    const controller = new AbortController();
+    // Con reloj, la IA no piensa más de lo que le permite su tiempo
+    const settings = DIFFICULTY_SETTINGS[difficulty];
+    const paced = clock
+      ? { ...settings, movetime: Math.min(settings.movetime, thinkTimeFor(clock, game.turn(), performance.now())) }
+      : settings;
+    // Sin jugada del motor la partida se detiene con el error a la vista, en vez de jugar al azar
+    const fen = game.fen();
+    const engineFailure = () => {
+      setEngineFailedFen(fen);
+      setStatusMessage(t.engineFailed);
+    };
+    engineRef.current
+      .getBestMove(fen, paced, controller.signal)
+      .then((move) => (move ? makeAIMove(move) : engineFailure()))
+      .catch((err) => {
+        if (err instanceof SearchCancelledError) return;
+        console.error('Error del motor:', err);
+        engineFailure();
+      });
+    return () => controller.abort();
+  }, [game, difficulty, playBookMoves, isAIThinking, makeAIMove, clock, t]);
+
+  const retryEngine = useCallback(() => {
+    setEngineGeneration((generation) => generation + 1);
+    setEngineFailedFen(null);
+    setStatusMessage(t.aiThinking);
+  }, [t]);
+
+  useEffect(() => {
+    if (!hintWanted || !engineRef.current) return;
+    // La pista se busca de nuevo en cada posición; la anterior deja de valer
+    const controller = new AbortController();
+    const fen = game.fen();
+    engineRef.current
+      .getBestMove(fen, HINT_SETTINGS, controller.signal)
+      .then((move) => {
+        if (move) setHint({ fen, move });
+      })
+      .catch((err) => {
+        if (!(err instanceof SearchCancelledError)) console.error('Error del motor:', err);
+      });
+    return () => controller.abort();
+  }, [game, hintWanted]);
+
+  useEffect(() => {
+    if (analyzedGame !== game || !engineRef.current) return;
+    // Cambiar de partida (o cancelar) aborta el análisis en curso
+    const controller = new AbortController();
+    analyzePositions(engineRef.current, positions, setAnalysisEvals, controller.signal)
+      .then(() => setStatusMessage(t.analysisDone))
+      .catch((err) => {
+        if (err instanceof SearchCancelledError) return;
+        console.error('Error del motor:', err);
+        setAnalyzedGame(null);
+        setStatusMessage(t.analysisFailed);
+      });
+    return () => controller.abort();
+  }, [analyzedGame, game, positions, t]);
+
+  const startAnalysis = useCallback(() => {
+    setAnalysisEvals([]);
+    setAnalyzedGame(game);
+    setStatusMessage(t.analyzingGame);
+  }, [game, t]);
+
+  const cancelAnalysis = useCallback(() => {
+    setAnalyzedGame(null);
+    setStatusMessage(t.analysisCancelled);
+  }, [t]);
+
+  // Flechas del análisis en la posición que se ve: la mejor jugada en verde y,
+  // si la jugada que se hizo fue un error, esa en rojo
+  const analysisArrows = useMemo(() => {
+    if (!analysisActive) return [];
+    const arrows: Arrow[] = [];
+    const best = analysisEvals[displayedPly]?.bestMove;
+    if (best) arrows.push({ startSquare: best.from, endSquare: best.to, color: 'rgba(34, 197, 94, 0.85)' });
+    const played = verboseHistory[displayedPly];
+    const review = moveReviews[displayedPly];
+    if (played && review && ['inaccuracy', 'mistake', 'blunder'].includes(review.classification)) {
+      arrows.push({ startSquare: played.from, endSquare: played.to, color: 'rgba(239, 68, 68, 0.85)' });
+    }
+    return arrows;
+  }, [analysisActive, analysisEvals, displayedPly, verboseHistory, moveReviews]);
+
+  // Jugada que toca en el problema, si se ha pedido verla
+  const puzzleSolutionMove = puzzle && puzzleRun?.revealed && game.turn() === puzzle.color && !isViewingPast
+    ? puzzle.solution[moveHistory.length] ?? null
+    : null;
+
+  const boardArrows = useMemo(() => {
+    const arrows = [...analysisArrows];
+    if (currentHint) arrows.push({ startSquare: currentHint.from, endSquare: currentHint.to, color: 'rgba(59, 130, 246, 0.85)' });
+    if (puzzleSolutionMove) {
+      arrows.push({ startSquare: puzzleSolutionMove.from, endSquare: puzzleSolutionMove.to, color: 'rgba(34, 197, 94, 0.85)' });
+    }
+    // La jugada que hay que repetir en el tablero real
+    if (pendingPhysicalMove) {
+      arrows.push({ startSquare: pendingPhysicalMove.from, endSquare: pendingPhysicalMove.to, color: 'rgba(249, 115, 22, 0.9)' });
+    }
+    return arrows;
+  }, [analysisArrows, currentHint, pendingPhysicalMove, puzzleSolutionMove]);
+
+  const playPhysicalMove = useCallback((move: Move) => {
+    setPhysicalCandidates(null);
+    if (!makeMove(move.from, move.to, move.promotion)) return;
+    boardWatcherRef.current?.accept();
+    setPhysicalSync({ gameId: savedGameKey.id, ply: moveHistory.length + 1 });
+    setStatusMessage(t.physicalMoveRecognized(move.san));
+  }, [makeMove, savedGameKey, moveHistory, t]);
+
+  const changeBoardMode = useCallback((enabled: boolean) => {
+    setBoardMode(enabled);
+    // La referencia se toma de nuevo con el tablero real colocado como la posición actual
+    boardWatcherRef.current?.reset();
+    setPhysicalSync(null);
+    setPhysicalCandidates(null);
+    setHands(NO_HANDS);
+    setStatusMessage(enabled ? t.boardModeOn : t.boardModeOff);
+  }, [t]);
 
   const onDrop = useCallback(({ sourceSquare, targetSquare }: PieceDropHandlerArgs): boolean => {
-    if (game.turn() !== 'w') return false;
+    if (!isHumanTurn || !targetSquare) return false;
+    if (isPromotionMove(game, sourceSquare as Square, targetSquare as Square)) {
+      setPendingPromotion({ from: sourceSquare as Square, to: targetSquare as Square });
+      setStatusMessage(t.choosePromotion);
+      return false;
+    }
     const success = makeMove(sourceSquare as Square, targetSquare as Square);
-    if (success) setStatusMessage('¡Buen movimiento!');
+    if (success) setStatusMessage(t.goodMove);
+    return success;
+  }, [game, isHumanTurn, makeMove, t]);
+
+  const completePromotion = useCallback((piece: PieceSymbol): boolean => {
+    if (!pendingPromotion) return false;
+    const success = makeMove(pendingPromotion.from, pendingPromotion.to, piece);
+    setPendingPromotion(null);
+    setHoveredPromotion(null);
     return success;
-  }, [game, makeMove]);
+  }, [pendingPromotion, makeMove]);
 
-  const resetGame = useCallback(() => {
+  const cancelPromotion = useCallback(() => {
+    setPendingPromotion(null);
+    setHoveredPromotion(null);
+    setStatusMessage(t.promotionCancelled);
+  }, [t]);
+
+  // ────────────────────────────────────────────────
+  // Historial: navegación, deshacer, PGN / FEN
+  // ────────────────────────────────────────────────
+  const selectPly = useCallback((ply: number) => {
+    setAutoPlay(false);
+    setViewPly(ply >= moveHistory.length ? null : Math.max(0, ply));
+  }, [moveHistory.length]);
+
+  const canTakeBack = moveHistory.length > 0 && !online && !puzzleRun
+    && (twoPlayer || game.history({ verbose: true }).some((move) => move.color === playerColor));
+
+  const takeBack = useCallback(() => {
+    const gameCopy = cloneGame(game);
+    // Con la IA pensando solo hay que quitar la jugada del jugador; si ya respondió, también la suya.
+    // A dos jugadores se deshace solo la última jugada.
+    if (!twoPlayer && gameCopy.turn() === playerColor) gameCopy.undo();
+    gameCopy.undo();
+    setGame(gameCopy);
+    setClock((prev) => prev && switchClock(prev, gameCopy.turn(), performance.now()));
+    setViewPly(null);
+    setPendingPromotion(null);
+    setHoveredPromotion(null);
+    setStatusMessage(t.moveUndone);
+  }, [game, playerColor, twoPlayer, t]);
+
+  const playerNames = useMemo((): Record<Color, string> => {
+    if (twoPlayer) return t.localPlayerNames;
+    const opponentName = online ? t.onlineOpponentName : `Stockfish (${difficulty})`;
+    return playerColor === 'w' ? { w: t.playerName, b: opponentName } : { w: opponentName, b: t.playerName };
+  }, [twoPlayer, online, difficulty, playerColor, t]);
+
+  const pgnHeaders = useCallback((): Record<string, string> => {
+    const headers: Record<string, string> = {
+      Event: 'Ajedrez AR',
+      Date: new Date().toISOString().slice(0, 10).replace(/-/g, '.'),
+      White: playerNames.w,
+      Black: playerNames.b,
+      ...(gameMode === 'ai' ? { Difficulty: difficulty } : {}),
+      ...(timeControl ? { TimeControl: pgnTimeControl(timeControl) } : {}),
+    };
+    // Resultados que chess.js no ve en el tablero
+    if (timeForfeit) {
+      headers.Result = winnerResult(timeForfeitWinner(game, timeForfeit));
+      headers.Termination = 'time forfeit';
+    } else if (resigned) {
+      headers.Result = winnerResult(resigned === 'w' ? 'b' : 'w');
+    } else if (onlineRoom?.result) {
+      headers.Result = winnerResult(onlineRoom.result.winner);
+    }
+    return headers;
+  }, [game, playerNames, difficulty, gameMode, timeControl, timeForfeit, resigned, onlineRoom]);
+
+  const handleExportPgn = useCallback(() => {
+    downloadFile(`partida-${new Date().toISOString().slice(0, 10)}.pgn`, exportPgn(game, pgnHeaders()), 'application/x-chess-pgn');
+  }, [game, pgnHeaders]);
+
+  const handleImport = useCallback((text: string): string | null => {
+    if (onlineRoom) return t.importWhileOnline;
+    let imported: Chess;
+    try {
+      imported = importGameRecord(text);
+    } catch (err) {
+      return errorText(t, err) ?? t.importFailed;
+    }
+    // Si el PGN es de esta app, recuperar el modo, el lado del jugador y la dificultad
+    const headers = imported.getHeaders();
+    const color: Color = isPlayerName(headers.White) ? 'w' : isPlayerName(headers.Black) ? 'b' : playerColor;
+    const mode: GameMode = areLocalPlayerNames(headers.White, headers.Black) ? 'local'
+      : isPlayerName(headers.White) || isPlayerName(headers.Black) || gameMode === 'online' ? 'ai'
+        : gameMode;
+    if (headers.Difficulty && headers.Difficulty in DIFFICULTY_SETTINGS) setDifficulty(headers.Difficulty as Difficulty);
+
+    engineRef.current?.newGame().catch((err) => console.error('Error del motor:', err));
+    setGame(imported);
+    setSavedGameKey(freshGameKey());
+    setPuzzleRun(null);
+    startClock(imported.turn());
+    setGameMode(mode);
+    setPlayerColor(color);
+    setBoardOrientation(orientationFor(color));
+    setViewPly(null);
+    setHands(NO_HANDS);
+    setPendingPromotion(null);
+    setHoveredPromotion(null);
+    setStatusMessage(mode === 'local' ? t.twoPlayerGameLoaded : t.gameLoadedAs(color));
+    return null;
+  }, [playerColor, gameMode, onlineRoom, startClock, t]);
+
+  const startNewGame = useCallback((choice: SideChoice, mode: GameMode) => {
+    // A dos jugadores el tablero se ve desde las blancas; se puede girar igualmente.
+    // En red el color definitivo lo decide la sala al entrar.
+    const color: Color = mode === 'local' ? 'w' : colorFor(choice);
+    leaveRoom();
+    engineRef.current?.newGame().catch((err) => console.error('Error del motor:', err));
     setGame(new Chess());
-    setStatusMessage('¡Nueva partida!');
-    setSelectedSquare(null);
-    setHighlightedSquare(null);
-    setIsDragging(false);
-    setDragStartSquare(null);
-    isPinchingRef.current = false;
-  }, []);
+    setSavedGameKey(freshGameKey());
+    setPuzzleRun(null);
+    startClock('w');
+    setGameMode(mode);
+    setPlayerColor(color);
+    setBoardOrientation(orientationFor(color));
+    setViewPly(null);
+    setStatusMessage(
+      mode === 'local' ? t.newTwoPlayerGame :
+        mode === 'online' ? t.newOnlineGame :
+          t.newGameAs(color)
+    );
+    setHands(NO_HANDS);
+    setPendingPromotion(null);
+    setHoveredPromotion(null);
+  }, [leaveRoom, startClock, t]);
+
+  const resetGame = useCallback(() => startNewGame(sideChoice, gameMode), [startNewGame, sideChoice, gameMode]);
 
   // ────────────────────────────────────────────────
-  // MediaPipe - Inicialización
+  // Entrenamiento con problemas
   // ────────────────────────────────────────────────
+  const startPuzzle = useCallback((set: PuzzleSet, index: number) => {
+    const next = set.puzzles[index];
+    leaveRoom();
+    engineRef.current?.newGame().catch((err) => console.error('Error del motor:', err));
+    setGame(new Chess(next.fen));
+    setSavedGameKey(freshGameKey());
+    setPuzzleRun({ set, index, result: null, revealed: false });
+    setClock(null);
+    setTimeForfeit(null);
+    setResigned(null);
+    setGameMode('ai');
+    setPlayerColor(next.color);
+    setBoardOrientation(orientationFor(next.color));
+    setViewPly(null);
+    setHands(NO_HANDS);
+    setPendingPromotion(null);
+    setHoveredPromotion(null);
+    setStatusMessage(t.puzzleStart(index + 1, next.color));
+  }, [leaveRoom, t]);
+
+  const loadPuzzles = useCallback(async (file: File) => {
+    try {
+      const set = parsePuzzleFile(file.name, await file.text());
+      startPuzzle(set, firstPendingPuzzle(puzzleProgress, set));
+    } catch (err) {
+      console.error('Error cargando problemas:', err);
+      setStatusMessage(errorText(t, err) ?? t.puzzlesLoadFailed);
+    }
+  }, [startPuzzle, puzzleProgress, t]);
+
+  // Ver la jugada cuenta como fallo
+  const showPuzzleSolution = useCallback(() => {
+    if (!puzzleRun) return;
+    recordPuzzle(false);
+    setPuzzleRun((prev) => prev && { ...prev, revealed: true });
+  }, [puzzleRun, recordPuzzle]);
+
+  const resetPuzzleProgress = useCallback(() => {
+    clearPuzzleProgress();
+    setPuzzleProgress(EMPTY_PROGRESS);
+  }, []);
+
+  // El rival responde con la jugada siguiente de la solución
+  const puzzleReply = puzzle && game.turn() !== puzzle.color && !game.isGameOver()
+    ? puzzle.solution[moveHistory.length] ?? null
+    : null;
   useEffect(() => {
-    const initialize = async () => {
-      try {
-        const vision = await FilesetResolver.forVisionTasks(
-          'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.0/wasm'
-        );
-        handLandmarkerRef.current = await HandLandmarker.createFromOptions(vision, {
-          baseOptions: {
-            modelAssetPath: 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task',
-            delegate: 'GPU',
-          },
-          numHands: 2,
-          runningMode: 'VIDEO',
-        });
-        setGestureStatus('¡Modelo cargado! Pellizca una pieza para arrastrarla');
-      } catch (err) {
-        console.error('Error cargando modelo:', err);
-        setGestureStatus('Error al cargar el modelo');
+    if (!puzzleReply) return;
+    const timer = setTimeout(() => {
+      const gameCopy = cloneGame(game);
+      gameCopy.move({ from: puzzleReply.from, to: puzzleReply.to, promotion: puzzleReply.promotion });
+      setGame(gameCopy);
+      setStatusMessage(t.puzzleReply(puzzleReply.san));
+    }, PUZZLE_REPLY_MS);
+    return () => clearTimeout(timer);
+  }, [game, puzzleReply, t]);
+
+  // ────────────────────────────────────────────────
+  // Partida en red
+  // ────────────────────────────────────────────────
+  const applyRoomState = useCallback((state: RoomState): Chess | null => {
+    let restored: Chess;
+    try {
+      restored = gameFromRoomState(state);
+    } catch (err) {
+      setStatusMessage(errorText(t, err) ?? t.roomSyncFailed);
+      return null;
+    }
+    setGame(restored);
+    setViewPly(null);
+    setHands(NO_HANDS);
+    setPendingPromotion(null);
+    setHoveredPromotion(null);
+    return restored;
+  }, [t]);
+
+  const handleNetworkMessage = useCallback((message: ServerMessage) => {
+    switch (message.type) {
+      case 'welcome': {
+        const restored = applyRoomState(message.state);
+        if (!restored) return;
+        setSavedGameKey(freshGameKey());
+        // El control de tiempo lo fija quien crea la sala y el reloj arranca con la primera jugada
+        setTimeControlId(message.state.timeControl);
+        setClock(clockFromRoomState(message.state, restored, performance.now()));
+        setTimeForfeit(null);
+        setResigned(null);
+        setPlayerColor(message.color);
+        setBoardOrientation(orientationFor(message.color));
+        setOnlineRoom({ code: message.room, opponentConnected: message.opponentConnected, drawOffer: null, result: message.state.result });
+        setStatusMessage(t.roomJoined(message.room, message.color));
+        break;
+      }
+      case 'opponent':
+        setOnlineRoom((prev) => prev && { ...prev, opponentConnected: message.connected, drawOffer: message.connected ? prev.drawOffer : null });
+        setStatusMessage(message.connected ? t.opponentConnected : t.opponentDisconnected);
+        break;
+      case 'move':
+        // Misma validación que las jugadas locales; si no encaja, pedir el estado de la sala
+        if (message.ply !== game.history().length || !makeMove(message.move.from, message.move.to, message.move.promotion)) {
+          roomClientRef.current?.send({ type: 'resync' });
+          return;
+        }
+        setOnlineRoom((prev) => prev && { ...prev, drawOffer: null });
+        setStatusMessage(t.opponentMoved);
+        break;
+      case 'draw-offer':
+        setOnlineRoom((prev) => prev && { ...prev, drawOffer: 'received' });
+        setStatusMessage(t.opponentOffersDraw);
+        break;
+      case 'draw-declined':
+        setOnlineRoom((prev) => prev && { ...prev, drawOffer: null });
+        setStatusMessage(t.drawDeclined);
+        break;
+      case 'result':
+        setOnlineRoom((prev) => prev && { ...prev, drawOffer: null, result: message.result });
+        setClock((prev) => prev && stopClock(prev, performance.now()));
+        if (message.result.reason === 'time') setTimeForfeit(game.turn());
+        break;
+      case 'state': {
+        const restored = applyRoomState(message.state);
+        if (!restored) return;
+        const { result } = message.state;
+        setClock(clockFromRoomState(message.state, restored, performance.now()));
+        setOnlineRoom((prev) => prev && { ...prev, result });
+        setStatusMessage(t.roomSynced);
+        break;
       }
+      case 'error':
+        setStatusMessage(t.serverError(protocolErrorText(t, message.code, message.detail)));
+        break;
+    }
+  }, [game, makeMove, applyRoomState, t]);
+
+  // El cliente vive más que cada render: los mensajes van siempre al manejador actual
+  const networkHandlerRef = useRef(handleNetworkMessage);
+  useEffect(() => {
+    networkHandlerRef.current = handleNetworkMessage;
+  }, [handleNetworkMessage]);
+
+  useEffect(() => leaveRoom, [leaveRoom]);
+
+  const connectToRoom = useCallback(async (url: string, request: ClientMessage) => {
+    leaveRoom();
+    const client = new RoomClient({
+      onMessage: (message) => networkHandlerRef.current(message),
+      onDisconnect: () => {
+        if (roomClientRef.current !== client) return;
+        roomClientRef.current = null;
+        setOnlineRoom(null);
+        setStatusMessage(t.connectionLost);
+      },
+    });
+    roomClientRef.current = client;
+    setConnecting(true);
+    try {
+      await client.connect(url.trim());
+      client.send(request);
+    } catch (err) {
+      if (roomClientRef.current === client) roomClientRef.current = null;
+      setStatusMessage(errorText(t, err) ?? t.connectFailed);
+    } finally {
+      setConnecting(false);
+    }
+  }, [leaveRoom, t]);
+
+  const createRoom = useCallback((url: string) => {
+    connectToRoom(url, { type: 'create', color: colorFor(sideChoice), timeControl: timeControlId });
+  }, [connectToRoom, sideChoice, timeControlId]);
+
+  const joinRoom = useCallback((url: string, code: string) => {
+    connectToRoom(url, { type: 'join', room: normalizeRoomCode(code) });
+  }, [connectToRoom]);
+
+  const offerDraw = useCallback(() => {
+    roomClientRef.current?.send({ type: 'draw-offer' });
+    setOnlineRoom((prev) => prev && { ...prev, drawOffer: 'sent' });
+    setStatusMessage(t.drawOffered);
+  }, [t]);
+
+  const respondDraw = useCallback((accept: boolean) => {
+    roomClientRef.current?.send({ type: 'draw-response', accept });
+    setOnlineRoom((prev) => prev && { ...prev, drawOffer: null });
+  }, []);
+
+  const resign = useCallback((side: Color) => {
+    if (online) {
+      roomClientRef.current?.send({ type: 'resign' });
+      return;
+    }
+    setResigned(side);
+    setClock((prev) => prev && stopClock(prev, performance.now()));
+    setPendingPromotion(null);
+    setHoveredPromotion(null);
+  }, [online]);
+
+  // ────────────────────────────────────────────────
+  // Gestos de orden
+  // ────────────────────────────────────────────────
+  const changeGestureBinding = useCallback((gesture: CommandGesture, command: GestureCommand) => {
+    const next = { ...gestureBindings, [gesture]: command };
+    setGestureBindings(next);
+    saveGestureBindings(next);
+  }, [gestureBindings]);
+
+  // ────────────────────────────────────────────────
+  // Mis partidas: autoguardado, retomar y biblioteca
+  // ────────────────────────────────────────────────
+  useEffect(() => {
+    latestUnfinishedGame()
+      .then(setResumeOffer)
+      .catch((err) => console.error('Error leyendo partidas guardadas:', err));
+    listGames()
+      .then(setSavedGames)
+      .catch((err) => console.error('Error leyendo partidas guardadas:', err));
+  }, []);
+
+  useEffect(() => {
+    // Las reproducciones de gestos y las partidas sin jugadas no se guardan
+    if (replaySource || puzzleRun || moveHistory.length === 0) return;
+    const headers = pgnHeaders();
+    const result = (headers.Result as GameResult | undefined) ?? gameResult(game);
+    const moves = moveHistory.join(' ');
+    const stored = storedGameRef.current;
+    if (stored?.id === savedGameKey.id && stored.moves === moves && stored.result === result) return;
+    storedGameRef.current = { id: savedGameKey.id, moves, result };
+    const record: SavedGame = {
+      ...savedGameKey,
+      updatedAt: Date.now(),
+      pgn: exportPgn(game, headers),
+      fen: game.fen(),
+      moves: moveHistory,
+      mode: gameMode,
+      difficulty,
+      playerColor,
+      timeControlId,
+      clock: clock && { remaining: clockSnapshot(clock, performance.now()), running: clock.running },
+      result,
     };
-    initialize();
+    saveGame(record)
+      .then(listGames)
+      .then(setSavedGames)
+      .catch((err) => console.error('Error guardando la partida:', err));
+  }, [game, moveHistory, clock, pgnHeaders, savedGameKey, gameMode, difficulty, playerColor, timeControlId, replaySource, puzzleRun]);
+
+  const openSavedGame = useCallback((saved: SavedGame): boolean => {
+    let restored: Chess;
+    try {
+      restored = importGameRecord(saved.pgn);
+    } catch (err) {
+      setStatusMessage(errorText(t, err) ?? t.openFailed);
+      return false;
+    }
+    // Una partida en red no se puede retomar sin su sala: se sigue a dos en local
+    const mode: GameMode = saved.mode === 'online' ? 'local' : saved.mode;
+    const control = saved.timeControlId === 'none' ? null : TIME_CONTROLS[saved.timeControlId];
+    const finished = saved.result !== '*';
+
+    leaveRoom();
+    engineRef.current?.newGame().catch((err) => console.error('Error del motor:', err));
+    storedGameRef.current = { id: saved.id, moves: saved.moves.join(' '), result: saved.result };
+    setGame(restored);
+    setSavedGameKey({ id: saved.id, createdAt: saved.createdAt });
+    setPuzzleRun(null);
+    setGameMode(mode);
+    setDifficulty(saved.difficulty);
+    setPlayerColor(saved.playerColor);
+    setBoardOrientation(orientationFor(saved.playerColor));
+    setTimeControlId(saved.timeControlId);
+    setClock(control && saved.clock && restoreClock(control, saved.clock.remaining, finished ? null : restored.turn(), performance.now()));
+    // La bandera cae siempre al lado que tenía que mover
+    const forfeit = restored.getHeaders().Termination === 'time forfeit';
+    setTimeForfeit(forfeit ? restored.turn() : null);
+    // Un resultado decisivo que no está en el tablero ni es por tiempo es un abandono
+    const loser: Color | null = saved.result === '1-0' ? 'b' : saved.result === '0-1' ? 'w' : null;
+    setResigned(loser && !forfeit && !restored.isCheckmate() ? loser : null);
+    setViewPly(null);
+    setAutoPlay(false);
+    setHands(NO_HANDS);
+    setPendingPromotion(null);
+    setHoveredPromotion(null);
+    setResumeOffer(null);
+    setStatusMessage(finished ? t.gameOpened : t.gameResumed);
+    return true;
+  }, [leaveRoom, t]);
+
+  const replaySavedGame = useCallback((saved: SavedGame) => {
+    if (!openSavedGame(saved)) return;
+    setViewPly(0);
+    setAutoPlay(true);
+    setStatusMessage(t.replayingGame);
+  }, [openSavedGame, t]);
+
+  // Reproducción automática: avanza una jugada cada REPLAY_STEP_MS hasta la posición actual
+  useEffect(() => {
+    if (!autoPlay) return;
+    const timeout = setTimeout(() => {
+      const next = (viewPly ?? moveHistory.length) + 1;
+      if (next >= moveHistory.length) {
+        setViewPly(null);
+        setAutoPlay(false);
+      } else {
+        setViewPly(next);
+      }
+    }, REPLAY_STEP_MS);
+    return () => clearTimeout(timeout);
+  }, [autoPlay, viewPly, moveHistory.length]);
+
+  const removeSavedGame = useCallback((saved: SavedGame) => {
+    // Si es la partida en curso, las próximas jugadas van a un registro nuevo
+    if (saved.id === savedGameKey.id) setSavedGameKey(freshGameKey());
+    if (resumeOffer?.id === saved.id) setResumeOffer(null);
+    deleteGame(saved.id)
+      .then(listGames)
+      .then(setSavedGames)
+      .catch((err) => console.error('Error borrando la partida:', err));
+  }, [savedGameKey, resumeOffer]);
+
+  const exportSavedGame = useCallback((saved: SavedGame) => {
+    downloadFile(`partida-${new Date(saved.createdAt).toISOString().slice(0, 10)}.pgn`, saved.pgn, 'application/x-chess-pgn');
+  }, []);
+
+  // ────────────────────────────────────────────────
+  // Seguimiento de manos - Worker con MediaPipe, dibujo de la cámara y gestos
+  // ────────────────────────────────────────────────
+  // El worker vive más que cada render: sus avisos usan siempre el idioma actual
+  const messagesRef = useRef(t);
+  useEffect(() => {
+    messagesRef.current = t;
+  }, [t]);
+
+  useEffect(() => {
+    dwellSelectorsRef.current = { w: new DwellSelector(), b: new DwellSelector() };
+    boardWatcherRef.current = new BoardWatcher();
+    const tracker = new HandTracker({
+      onReady: (delegate) => setGestureStatus(messagesRef.current.modelLoaded(delegate === 'GPU')),
+      onError: () => {
+        setHandTrackingAvailable(false);
+        setGestureStatus(messagesRef.current.modelFailed);
+      },
+      onFrame: (frame) => {
+        // El worker ya ha dibujado la cámara, la cuadrícula y las manos
+        const renderer = canvasRef.current?.getContext('bitmaprenderer');
+        if (renderer) renderer.transferFromImageBitmap(frame.image);
+        else frame.image.close();
+        frameHandlerRef.current?.(frame);
+      },
+      onStats: (stats) => {
+        if (trackingStatsRef.current) trackingStatsRef.current.textContent = messagesRef.current.trackerStats(stats);
+      },
+    });
+    trackerRef.current = tracker;
     return () => {
-      handLandmarkerRef.current?.close();
+      tracker.terminate();
+      trackerRef.current = null;
     };
   }, []);
 
+  const changeInputSettings = useCallback((changes: Partial<InputSettings>) => {
+    const next = { ...inputSettings, ...changes };
+    setInputSettings(next);
+    saveInputSettings(next);
+    if (next.mode !== inputSettings.mode) {
+      // Al cambiar de modo no queda nada a medio elegir
+      trackerRef.current?.resetGestures();
+      SIDES.forEach((side) => dwellSelectorsRef.current?.[side].reset());
+      setHands(NO_HANDS);
+    }
+  }, [inputSettings]);
+
+  const handleUserMediaError = useCallback((err: string | DOMException) => {
+    console.error('Error de cámara:', err);
+    setCameraAvailable(false);
+    setGestureStatus(t.cameraUnavailableMouseOnly);
+  }, [t]);
+
+  const retryCamera = useCallback(() => {
+    setCameraAvailable(true);
+    setGestureStatus(t.waitingForHands);
+  }, [t]);
+
+  // ────────────────────────────────────────────────
+  // Calibración
+  // ────────────────────────────────────────────────
+  const handleUserMedia = useCallback((stream: MediaStream) => {
+    const deviceId = stream.getVideoTracks()[0]?.getSettings().deviceId || 'default';
+    setCameraDeviceId(deviceId);
+    setCalibration(loadCalibration(deviceId) ?? DEFAULT_CALIBRATION);
+    setArSurface(loadCalibration(deviceId, 'ar'));
+  }, []);
+
+  const startCalibration = useCallback((target: CalibrationTarget) => {
+    setCalibrationTarget(target);
+    setCalibrationPoints([]);
+    setHands(NO_HANDS);
+  }, []);
+
+  const finishCalibration = useCallback((points: Point[]) => {
+    const result = createCalibration(points);
+    if (!result) {
+      setCalibrationPoints([]);
+      setStatusMessage(t.calibrationInvalid);
+      return;
+    }
+    saveCalibration(cameraDeviceId, result, calibrationTarget);
+    if (calibrationTarget === 'ar') setArSurface(result);
+    else setCalibration(result);
+    setCalibrationPoints(null);
+    setStatusMessage(calibrationTarget === 'ar' ? t.arSurfaceSaved : t.calibrationSaved);
+  }, [cameraDeviceId, calibrationTarget, t]);
+
+  const resetCalibration = useCallback(() => {
+    clearCalibration(cameraDeviceId);
+    setCalibration(DEFAULT_CALIBRATION);
+    setCalibrationPoints(null);
+    setStatusMessage(t.calibrationReset);
+  }, [cameraDeviceId, t]);
+
+  const resetArSurface = useCallback(() => {
+    clearCalibration(cameraDeviceId, 'ar');
+    setArSurface(null);
+    setStatusMessage(t.arSurfaceReset);
+  }, [cameraDeviceId, t]);
+
   // ────────────────────────────────────────────────
-  // Loop de detección continua - Pellizco y Arrastre
+  // Grabación y reproducción
+  // ────────────────────────────────────────────────
+  const toggleRecording = useCallback(() => {
+    if (recorderRef.current) {
+      const recording = recorderRef.current.finish();
+      recorderRef.current = null;
+      setIsRecording(false);
+      downloadFile(`gestos-${recording.meta.recordedAt.replace(/[:.]/g, '-')}.json`, JSON.stringify(recording), 'application/json');
+      setStatusMessage(t.recordingSaved(recording.frames.length));
+      return;
+    }
+    recorderRef.current = new SessionRecorder({
+      recordedAt: new Date().toISOString(),
+      startFen: game.fen(),
+      playerColor,
+      boardOrientation,
+      calibration: calibration.corners,
+      handAssignment: twoPlayer ? handAssignment : undefined,
+      input: inputSettings,
+      bindings: gestureBindings,
+    });
+    setIsRecording(true);
+    setStatusMessage(t.recordingStarted);
+  }, [game, playerColor, boardOrientation, calibration, twoPlayer, handAssignment, inputSettings, gestureBindings, t]);
+
+  const loadReplay = useCallback(async (file: File) => {
+    try {
+      const recording = parseRecording(await file.text());
+      const { meta } = recording;
+      // Reproducir con el mismo punto de partida y el mismo mapeo que al grabar
+      const start = new Chess(meta.startFen);
+      setGame(start);
+      setSavedGameKey(freshGameKey());
+      setPuzzleRun(null);
+      startClock(start.turn());
+      setViewPly(null);
+      setGameMode(meta.handAssignment ? 'local' : 'ai');
+      if (meta.handAssignment) setHandAssignment(meta.handAssignment);
+      setPlayerColor(meta.playerColor);
+      setBoardOrientation(meta.boardOrientation);
+      setCalibration({ corners: meta.calibration });
+      setHands(NO_HANDS);
+      setPendingPromotion(null);
+      trackerRef.current?.resetGestures();
+      setReplaySource(new ReplaySource(recording));
+      setStatusMessage(t.replayingFile(file.name));
+    } catch (err) {
+      console.error('Error cargando grabación:', err);
+      setStatusMessage(errorText(t, err) ?? t.recordingLoadFailed);
+    }
+  }, [startClock, t]);
+
+  const stopReplay = useCallback((message: string) => {
+    trackerRef.current?.resetGestures();
+    setReplaySource(null);
+    // Volver a la calibración propia de esta cámara
+    setCalibration(loadCalibration(cameraDeviceId) ?? DEFAULT_CALIBRATION);
+    setStatusMessage(message);
+  }, [cameraDeviceId]);
+
+  // Todo lo que el worker necesita para dibujar y traducir gestos (después de crearlo)
+  useEffect(() => {
+    trackerRef.current?.configure({
+      width: cameraWidth,
+      height: cameraHeight,
+      calibration: calibration.corners,
+      arSurface: arSurface?.corners ?? null,
+      boardOrientation,
+      calibrationPoints,
+      twoPlayer,
+      handAssignment,
+      playerColor,
+      bindings: gestureBindings,
+      commandsEnabled: !pendingPromotion && !boardMode,
+      // La palma abierta solo retiene la pieza agarrada si sirve para cancelar el arrastre
+      keepGrabOnOpenPalm: keepsGrabOnOpenPalm(gestureBindings),
+      recording: isRecording,
+      boardRecognition: boardMode,
+    });
+  }, [
+    calibration, arSurface, boardOrientation, calibrationPoints, twoPlayer, handAssignment, playerColor, gestureBindings, pendingPromotion,
+    isRecording, boardMode,
+  ]);
+
+  // Lo mismo que muestra el tablero, para dibujarlo sobre la cámara en la vista AR
+  const arScene = useMemo<ArScene | null>(() => {
+    if (!arView) return null;
+    const lastMove = verboseHistory[displayedPly - 1];
+    return {
+      fen: displayedFen,
+      highlighted: SIDES.flatMap((side) => hands[side].highlightedSquare ?? []),
+      selected: SIDES.flatMap((side) => hands[side].dragStartSquare ?? []),
+      lastMove: lastMove ? { from: lastMove.from, to: lastMove.to } : null,
+      hint: currentHint && { from: currentHint.from, to: currentHint.to },
+    };
+  }, [arView, displayedFen, displayedPly, verboseHistory, hands, currentHint]);
+
+  useEffect(() => {
+    trackerRef.current?.setScene(arScene);
+  }, [arScene]);
+
+  // ────────────────────────────────────────────────
+  // Captura - Fotogramas de la cámara o de una grabación hacia el worker
   // ────────────────────────────────────────────────
   useEffect(() => {
     let animationFrameId: number;
 
-    const detect = () => {
-      if (
-        !webcamRef.current?.video ||
-        webcamRef.current.video.readyState !== 4 ||
-        !handLandmarkerRef.current ||
-        !canvasRef.current
-      ) {
-        animationFrameId = requestAnimationFrame(detect);
+    const capture = () => {
+      const tracker = trackerRef.current;
+      const video = webcamRef.current?.video;
+      const now = performance.now();
+      if (tracker && replaySource) {
+        replaySource.pendingFrames(now).forEach((frame) => tracker.sendReplayFrame(frameHands(frame), frame.t));
+        if (replaySource.finished) {
+          stopReplay(t.replayFinished);
+          return;
+        }
+      } else if (tracker && video && video.readyState === 4) {
+        // Solo hay un fotograma en el worker a la vez: los demás se descartan
+        tracker.sendVideoFrame(video, now);
+      }
+      animationFrameId = requestAnimationFrame(capture);
+    };
+
+    capture();
+
+    return () => cancelAnimationFrame(animationFrameId);
+  }, [replaySource, stopReplay, t]);
+
+  // ────────────────────────────────────────────────
+  // Resultados del worker - Pellizco y Arrastre
+  // ────────────────────────────────────────────────
+  useEffect(() => {
+    const endDrag = (side: Color) => updateHand(side, { dragStartSquare: null });
+
+    // A dos jugadores cada mensaje indica de qué lado es
+    const say = (side: Color, text: string) => setGestureStatus(twoPlayer ? t.sideMessage(side, text) : text);
+
+    const dwellMode = inputSettings.mode === 'dwell';
+
+    // Solo el rótulo pasa por React; el progreso va directo al anillo
+    const showDwell = (side: Color, dwell: { progress: number; label: string } | null) => {
+      ringProgressRef.current[side].dwell = dwell && dwell.progress;
+      placeRing(side);
+      updateHand(side, { dwell: dwell && dwell.label });
+    };
+
+    // Avanza la permanencia sobre `target` y devuelve true si acaba de completarse
+    const dwellOn = (side: Color, target: string | null, label: string, timestamp: number): boolean => {
+      const selector = dwellSelectorsRef.current?.[side];
+      if (!selector) return false;
+      const { progress, fired } = selector.update(target, timestamp, inputSettings.dwellMs);
+      showDwell(side, target && progress > 0 && !fired ? { progress, label } : null);
+      return fired !== null;
+    };
+
+    // MODO PERMANENCIA - La traducción a eventos de pellizco es la misma que en las grabaciones
+    const dwellEvent = (event: GestureEvent, side: Color, timestamp: number): GestureEvent | null => {
+      const selector = dwellSelectorsRef.current?.[side];
+      if (!selector) return null;
+      const selected = hands[side].dragStartSquare;
+      const step = dwellToPinch(event, selector, timestamp, {
+        game, side, selected, locked: !!moveLockReason, dwellMs: inputSettings.dwellMs,
+      });
+      const square = event.type === 'lost' ? null : event.square;
+      const label = !selected ? t.dwellPick(square) : square === selected ? t.dwellDrop(square) : t.dwellMoveTo(square);
+      showDwell(side, step.target && step.progress > 0 && !step.fired ? { progress: step.progress, label } : null);
+      if (step.reselect) endDrag(side);
+      return step.event;
+    };
+
+    const handleGesture = (event: GestureEvent, side: Color, timestamp: number) => {
+      const { dragStartSquare } = hands[side];
+      // Solo la mano del lado que mueve elige la pieza de promoción
+      const choosesPromotion = pendingPromotion !== null && side === game.turn();
+
+      if (event.type === 'lost') {
+        // MANO PERDIDA - Ocultar cursor
+        updateHand(side, { cursor: false, highlightedSquare: null });
+        if (choosesPromotion) setHoveredPromotion(null);
+      }
+      // CALIBRACIÓN - Apuntar a cada esquina y pellizcar
+      else if (calibrationPoints) {
+        if (event.type === 'grab') {
+          const points = [...calibrationPoints, event.point];
+          if (points.length < 4) {
+            setCalibrationPoints(points);
+          } else {
+            finishCalibration(points);
+          }
+        } else {
+          setGestureStatus(t.calibrationCorner(calibrationPoints.length));
+        }
         return;
       }
+      else {
+        // Punto del tablero bajo el dedo
+        const boardRect = boardContainerRef.current?.getBoundingClientRect();
+        if (!boardRect) return;
+        const boardPoint = applyHomography(transforms.cameraToBoard, event.point);
+        const boardX = boardPoint.x * boardRect.width;
+        const boardY = boardPoint.y * boardRect.height;
 
-      try {
-        const video = webcamRef.current.video;
-        const now = performance.now();
-        const detections = handLandmarkerRef.current.detectForVideo(video, now);
-        const ctx = canvasRef.current.getContext('2d');
-        
-        if (ctx) {
-          ctx.save();
-          ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-          ctx.drawImage(video, 0, 0, canvasRef.current.width, canvasRef.current.height);
-          
-          drawGridOnCamera(ctx, canvasRef.current.width, canvasRef.current.height);
-          
-          const drawingUtils = new DrawingUtils(ctx);
-          let hasHand = false;
-          
-          if (detections.landmarks.length > 0) {
-            hasHand = true;
-            lastDetectionTime.current = now;
-            
-            detections.landmarks.forEach((landmarks) => {
-              drawingUtils.drawLandmarks(landmarks, { color: '#FFEB3B', lineWidth: 2, radius: 6 });
-              drawingUtils.drawConnectors(landmarks, HandLandmarker.HAND_CONNECTIONS, { color: '#FFEB3B', lineWidth: 5 });
-            });
-
-            const landmarks = detections.landmarks[0];
-            const indexFinger = landmarks[8];
-            const thumb = landmarks[4];
-            
-            // Calcular distancia de pellizco
-            const pinchDist = Math.sqrt(
-              Math.pow(thumb.x - indexFinger.x, 2) +
-              Math.pow(thumb.y - indexFinger.y, 2)
-            );
-            
-            const isPinching = pinchDist < 0.08; // Umbral para pellizco
-            
-            // Debounce para evitar fluctuaciones
-            if (now - pinchDebounceRef.current > 100) {
-              isPinchingRef.current = isPinching;
-              pinchDebounceRef.current = now;
-            }
-            
-            // Actualizar cursor en el tablero
-            const boardRect = boardContainerRef.current?.getBoundingClientRect();
-            if (boardRect) {
-              const boardX = (1 - indexFinger.x) * boardRect.width;
-              const boardY = indexFinger.y * boardRect.height;
-              
-              cursorPosRef.current = { x: boardX, y: boardY };
-              setCursorPos({ x: boardX, y: boardY });
-
-              // Resaltar casilla bajo el cursor
-              const currentSquare = getSquareFromPosition(boardX, boardY, boardRect.width, boardRect.height);
-              setHighlightedSquare(currentSquare);
-
-              // LÓGICA DE PELLIZCO Y ARRASTRE
-              if (isPinchingRef.current && !isDragging) {
-                // INICIO DE PELLIZCO - Intentar agarrar pieza
-                if (now - lastPinchTime.current > 300) { // Debounce de 300ms
-                  lastPinchTime.current = now;
-                  
-                  if (currentSquare) {
-                    const piece = game.get(currentSquare);
-                    // Solo permitir mover piezas blancas en el turno del jugador
-                    if (piece && piece.color === 'w' && game.turn() === 'w') {
-                      setIsDragging(true);
-                      setDragStartSquare(currentSquare);
-                      setSelectedSquare(currentSquare);
-                      setGestureStatus(`Arrastrando desde ${currentSquare}`);
-                    } else if (piece && piece.color === 'b') {
-                      setGestureStatus('Espera tu turno - solo mueves blancas');
-                    } else if (!piece) {
-                      setGestureStatus('No hay pieza en esta casilla');
-                    }
-                  }
-                }
-              } 
-              else if (isPinchingRef.current && isDragging && dragStartSquare) {
-                // ARRASTRANDO - Mover la pieza
-                if (currentSquare && currentSquare !== dragStartSquare) {
-                  setGestureStatus(`Arrastrando: ${dragStartSquare} → ${currentSquare}`);
-                } else {
-                  setGestureStatus(`Arrastrando desde ${dragStartSquare}`);
-                }
-              }
-              else if (!isPinchingRef.current && isDragging && dragStartSquare) {
-                // SOLTAR PELLIZCO - Intentar mover pieza
-                setIsDragging(false);
-                
-                if (currentSquare && dragStartSquare !== currentSquare) {
-                  const success = makeMove(dragStartSquare, currentSquare);
-                  if (success) {
-                    setGestureStatus(`¡Movido! ${dragStartSquare} → ${currentSquare}`);
-                  } else {
-                    setGestureStatus(`Movimiento inválido: ${dragStartSquare} → ${currentSquare}`);
-                  }
-                } else if (currentSquare === dragStartSquare) {
-                  setGestureStatus('Pieza soltada en la misma casilla');
-                }
-                
-                // Limpiar selección
-                setSelectedSquare(null);
-                setDragStartSquare(null);
-              }
-              else if (!isDragging) {
-                // MODO NORMAL - Solo apuntando
-                if (currentSquare) {
-                  const piece = game.get(currentSquare);
-                  if (piece) {
-                    if (piece.color === 'w' && game.turn() === 'w') {
-                      setGestureStatus(`Pieza ${piece.type} en ${currentSquare} - Pellizca para mover`);
-                    } else {
-                      setGestureStatus(`Casilla ${currentSquare}`);
-                    }
-                  } else {
-                    setGestureStatus(`Casilla ${currentSquare}`);
-                  }
-                } else {
-                  setGestureStatus('Apunta al tablero');
-                }
-              }
-            }
+        // Mostrar el cursor y resaltar la casilla bajo él
+        updateHand(side, { cursor: true, highlightedSquare: event.square });
+
+        // PROMOCIÓN - Apuntar a una pieza y pellizcar para confirmar
+        if (pendingPromotion) {
+          if (!choosesPromotion) return;
+          const pointerX = boardRect.left + boardX;
+          const pointerY = boardRect.top + boardY;
+          const hovered = (Object.entries(promotionChoiceRefs.current) as [PieceSymbol, HTMLButtonElement | null][])
+            .find(([, el]) => {
+              const rect = el?.getBoundingClientRect();
+              return rect && pointerX >= rect.left && pointerX <= rect.right && pointerY >= rect.top && pointerY <= rect.bottom;
+            })?.[0] ?? null;
+          setHoveredPromotion(hovered);
+          updateHand(side, { highlightedSquare: null });
+
+          const chosen = dwellMode
+            ? dwellOn(side, hovered, hovered ? t.dwellPromote(hovered) : '', timestamp)
+            : event.type === 'grab';
+          if (chosen && hovered) {
+            const success = completePromotion(hovered);
+            say(side, success ? t.promoted(hovered) : t.promotionInvalid);
+          } else {
+            say(side, hovered ? t.promotionHint(hovered, dwellMode) : t.pointAtPromotion);
+          }
+          return;
+        }
+      }
+
+      if (dwellMode) {
+        const translated = dwellEvent(event, side, timestamp);
+        if (!translated) return;
+        event = translated;
+      }
+
+      // RELOJ - Pellizcar fuera del tablero pulsa el reloj y confirma la jugada
+      if (event.type === 'grab' && !event.square && !dragStartSquare && clockAwaitingPress === side) {
+        confirmMove();
+        say(side, t.clockPressed);
+        return;
+      }
+
+      // Revisando una posición anterior, sin sala o con la partida terminada: no se puede mover
+      if (moveLockReason && event.type === 'grab') {
+        say(side, moveLockReason);
+        return;
+      }
+
+      // LÓGICA DE PELLIZCO Y ARRASTRE
+      const outcome = interpretGesture(event, game, side, dragStartSquare);
+      // Con dos manos en el tablero, el lado que espera no pisa los mensajes continuos del que mueve
+      const quiet = twoPlayer && side !== game.turn();
+      switch (outcome?.type) {
+        case 'grabbed':
+          updateHand(side, { dragStartSquare: outcome.square });
+          say(side, t.draggingFrom(outcome.square));
+          break;
+        case 'grab-rejected':
+          say(side,
+            outcome.reason === 'empty' ? t.emptySquare :
+              outcome.reason === 'opponent-piece' ? t.notYourPiece(side) :
+                t.waitYourTurn
+          );
+          break;
+        case 'dragging':
+          say(side, outcome.over && outcome.over !== outcome.from
+            ? t.draggingTo(outcome.from, outcome.over)
+            : t.draggingFrom(outcome.from));
+          break;
+        case 'dropped':
+          endDrag(side);
+          if (isPromotionMove(game, outcome.from, outcome.to)) {
+            setPendingPromotion({ from: outcome.from, to: outcome.to });
+            say(side, t.promotionPrompt);
+          } else if (makeMove(outcome.from, outcome.to)) {
+            say(side, t.moved(outcome.from, outcome.to));
+          } else {
+            say(side, t.invalidMoveFromTo(outcome.from, outcome.to));
+          }
+          break;
+        case 'dropped-same-square':
+          endDrag(side);
+          say(side, t.droppedSameSquare);
+          break;
+        case 'dropped-off-board':
+          endDrag(side);
+          say(side, t.droppedOffBoard);
+          break;
+        case 'cancelled':
+          endDrag(side);
+          say(side, t.dragLost);
+          break;
+        case 'pointing':
+          if (quiet) break;
+          say(side,
+            !outcome.square ? t.pointAtBoard :
+              outcome.movable && outcome.piece ? t.pointingPiece(outcome.piece, outcome.square, dwellMode) :
+                t.pointingSquare(outcome.square)
+          );
+          break;
+        case 'lost':
+          if (quiet) break;
+          say(side, t.noHand);
+          break;
+      }
+    };
+
+    // GESTOS DE ORDEN - Se confirman manteniendo el gesto hasta completar el anillo del cursor
+    const runCommand = (command: GestureCommand, side: Color) => {
+      switch (command) {
+        case 'cancel-drag':
+          if (!hands[side].dragStartSquare) {
+            say(side, t.noPieceHeld);
+            break;
           }
-          
-          if (!hasHand && now - lastDetectionTime.current > 1500) {
-            setCursorPos(null);
-            cursorPosRef.current = null;
-            setHighlightedSquare(null);
-            setGestureStatus('No se detecta mano');
-            
-            // Si perdemos la mano mientras arrastramos, cancelar
-            if (isDragging) {
-              setIsDragging(false);
-              setSelectedSquare(null);
-              setDragStartSquare(null);
-              setGestureStatus('Arrastre cancelado - mano perdida');
-            }
+          trackerRef.current?.cancelGrab(side);
+          endDrag(side);
+          say(side, t.dragCancelled);
+          break;
+        case 'confirm':
+          if (clockAwaitingPress === side) {
+            confirmMove();
+            say(side, t.clockPressed);
+          } else if (onlineRoom?.drawOffer === 'received') {
+            respondDraw(true);
+            say(side, t.drawAccepted);
+          } else {
+            say(side, t.nothingToConfirm);
           }
-          
-          ctx.restore();
+          break;
+        case 'undo':
+          if (canTakeBack && !replaySource) {
+            takeBack();
+            say(side, t.moveUndone);
+          } else {
+            say(side, t.cannotUndo);
+          }
+          break;
+        case 'resign':
+          if (gameFinished || (online && !onlineRoom)) {
+            say(side, t.noGameInProgress);
+          } else {
+            resign(twoPlayer ? side : playerColor);
+            say(side, t.resignConfirmed);
+          }
+          break;
+        case 'offer-draw':
+          if (onlineRoom && !onlineRoom.result && onlineRoom.opponentConnected && !onlineRoom.drawOffer) {
+            offerDraw();
+            say(side, t.drawOffered);
+          } else {
+            say(side, online ? t.cannotOfferDraw : t.drawOnlyOnline);
+          }
+          break;
+        case 'new-game':
+          if (onlineRoom) {
+            say(side, t.leaveRoomFirst);
+          } else {
+            resetGame();
+            say(side, t.commands['new-game']);
+          }
+          break;
+        case 'flip-board':
+          setBoardOrientation((prev) => prev === 'white' ? 'black' : 'white');
+          say(side, t.boardFlipped);
+          break;
+        case 'none':
+          break;
+      }
+    };
+
+    const showHold = (side: Color, hold: CommandHold | null) => {
+      ringProgressRef.current[side].hold = hold && hold.progress;
+      placeRing(side);
+      updateHand(side, { hold: hold && hold.gesture });
+    };
+
+    // TABLERO REAL - Cuando la escena se queda quieta, las casillas cambiadas dicen qué jugada se hizo
+    const watchBoard = (frame: TrackerFrame) => {
+      const watcher = boardWatcherRef.current;
+      if (!frame.squares || !watcher) return;
+      if (physicalPly === null) {
+        watcher.reset();
+        setPhysicalSync({ gameId: savedGameKey.id, ply: moveHistory.length });
+        return;
+      }
+      // Una mano a la vista también es movimiento: se espera a que la aparten
+      const handVisible = SIDES.some((side) => frame.pointers[side] !== null);
+      const changed = watcher.update(frame.squares, handVisible, frame.timestamp);
+      if (!changed || changed.length === 0) return;
+
+      if (pendingPhysicalMove) {
+        if (inferMove(changed, [pendingPhysicalMove]).type === 'move') {
+          watcher.accept();
+          setPhysicalSync({ gameId: savedGameKey.id, ply: physicalPly + 1 });
+          setGestureStatus(t.physicalInSync(pendingPhysicalMove.san));
+        } else {
+          setGestureStatus(t.physicalDo(pendingPhysicalMove.san, pendingPhysicalMove.from, pendingPhysicalMove.to));
         }
-      } catch (err) {
-        console.error('Error en detección:', err);
+        return;
+      }
+      if (moveLockReason || !isHumanTurn || pendingPromotion) {
+        setGestureStatus(moveLockReason ?? t.physicalWait);
+        return;
+      }
+      const inference = inferMove(changed, game.moves({ verbose: true }));
+      switch (inference.type) {
+        case 'move':
+          playPhysicalMove(inference.move);
+          setGestureStatus(t.physicalRecognized(inference.move.san));
+          break;
+        case 'ambiguous':
+          setPhysicalCandidates(inference.moves);
+          setGestureStatus(t.physicalAmbiguous);
+          break;
+        case 'unknown':
+          setPhysicalCandidates(null);
+          setGestureStatus(t.physicalUnknown);
+          break;
       }
-      
-      animationFrameId = requestAnimationFrame(detect);
     };
-    
-    detect();
-    
-    return () => {
-      if (animationFrameId) {
-        cancelAnimationFrame(animationFrameId);
+
+    frameHandlerRef.current = (frame: TrackerFrame) => {
+      try {
+        if (frame.detections) recorderRef.current?.addFrame(frame.detections, frame.timestamp);
+        // Con el tablero real las manos no manejan el cursor (salvo para calibrar)
+        if (boardMode && !calibrationPoints) {
+          watchBoard(frame);
+          return;
+        }
+        for (const side of SIDES) {
+          const pointer = frame.pointers[side];
+          if (pointer && !calibrationPoints) placeCursor(side, applyHomography(transforms.cameraToBoard, pointer));
+
+          const changed = frame.events.find((item) => item.side === side)?.event;
+          if (changed) lastEventsRef.current[side] = changed;
+          const event = changed ?? (dwellMode || pendingPromotion ? continuingEvent(lastEventsRef.current[side], pointer) : null);
+          if (event) handleGesture(event, side, frame.timestamp);
+
+          showHold(side, frame.holds[side]);
+          frame.fired.filter((item) => item.side === side).forEach(({ gesture }) => runCommand(gestureBindings[gesture], side));
+        }
+      } catch (err) {
+        console.error('Error en detección:', err);
       }
     };
-  }, [game, makeMove, isDragging, dragStartSquare]);
-
-  // Dibujar cuadrícula 8x8 en cámara
-  function drawGridOnCamera(ctx: CanvasRenderingContext2D, w: number, h: number) {
-    ctx.strokeStyle = 'rgba(255, 255, 255, 0.35)';
-    ctx.lineWidth = 1;
-    const cw = w / 8;
-    const ch = h / 8;
-    for (let i = 1; i < 8; i++) {
-      ctx.beginPath(); ctx.moveTo(i * cw, 0); ctx.lineTo(i * cw, h); ctx.stroke();
-      ctx.beginPath(); ctx.moveTo(0, i * ch); ctx.lineTo(w, i * ch); ctx.stroke();
-    }
-  }
+  }, [
+    game, makeMove, hands, updateHand, placeCursor, placeRing, playerColor, pendingPromotion, completePromotion,
+    calibrationPoints, transforms, finishCalibration, replaySource, moveLockReason, twoPlayer, clockAwaitingPress, confirmMove,
+    gestureBindings, onlineRoom, online, respondDraw, offerDraw, canTakeBack, takeBack, gameFinished, resign, resetGame, inputSettings,
+    boardMode, physicalPly, pendingPhysicalMove, savedGameKey, moveHistory, isHumanTurn, playPhysicalMove, t,
+  ]);
 
-  function getSquareFromPosition(x: number, y: number, boardW: number, boardH: number): Square | null {
-    const fileIdx = Math.floor(x / (boardW / 8));
-    const rankIdx = 7 - Math.floor(y / (boardH / 8));
-    if (fileIdx < 0 || fileIdx > 7 || rankIdx < 0 || rankIdx > 7) return null;
-    return `${'abcdefgh'[fileIdx]}${rankIdx + 1}` as Square;
-  }
+  // Casilla apuntada y casilla de origen de cada mano (el origen tiene prioridad),
+  // sobre los destinos legales de la pieza elegida
+  const handSquareStyles: Record<string, CSSProperties> = {};
+  SIDES.forEach((side) => {
+    const { dragStartSquare } = hands[side];
+    if (!dragStartSquare) return;
+    game.moves({ square: dragStartSquare, verbose: true }).forEach((move) => {
+      handSquareStyles[move.to] = move.captured ? LEGAL_CAPTURE_STYLE : LEGAL_MOVE_STYLE;
+    });
+  });
+  SIDES.forEach((side) => {
+    const { highlightedSquare } = hands[side];
+    if (highlightedSquare) handSquareStyles[highlightedSquare] = HIGHLIGHT_STYLE;
+  });
+  SIDES.forEach((side) => {
+    const { dragStartSquare } = hands[side];
+    if (dragStartSquare) handSquareStyles[dragStartSquare] = SELECTED_STYLE;
+  });
+  // El arrastre que se muestra en la barra de estado: el del lado que mueve
+  const activeDragSquare = hands[twoPlayer ? game.turn() : playerColor].dragStartSquare;
+
+  // ────────────────────────────────────────────────
+  // Idioma y anuncios
+  // ────────────────────────────────────────────────
+  const changeLanguageSettings = useCallback((changes: Partial<LanguageSettings>) => {
+    const next = { ...languageSettings, ...changes };
+    setLanguageSettings(next);
+    saveLanguageSettings(next);
+  }, [languageSettings]);
+
+  useEffect(() => {
+    document.documentElement.lang = languageSettings.language;
+  }, [languageSettings.language]);
+
+  // Resultados que chess.js no ve en el tablero
+  const resultText = onlineRoom?.result ? onlineResultText(t, onlineRoom.result, playerColor, game)
+    : timeForfeit ? timeForfeitText(t, game, timeForfeit)
+      : resigned ? resignationText(t, resigned, playerNames)
+        : null;
+
+  // Última jugada (con el jaque) y final de la partida, para la voz y los lectores de pantalla
+  const lastMove = verboseHistory[verboseHistory.length - 1];
+  const announcement = [
+    lastMove && t.moveAnnouncement(lastMove, game.inCheck(), game.isCheckmate()),
+    resultText ?? (game.isDraw() ? t.draw : null),
+  ].filter(Boolean).join('. ');
+
+  useEffect(() => {
+    if (languageSettings.speakMoves) speak(announcement, t.speechLang);
+  }, [announcement, languageSettings.speakMoves, t]);
 
   // ────────────────────────────────────────────────
   // Render final
   // ────────────────────────────────────────────────
   return (
-    <div className="min-h-screen bg-gradient-to-br from-gray-950 via-indigo-950 to-purple-950 text-white flex flex-col items-center p-4 md:p-6">
-      <h1 className="text-4xl md:text-6xl font-extrabold mb-8 text-yellow-400 drop-shadow-2xl animate-pulse">
-        Ajedrez Mágico con Cámara
-      </h1>
-      
-      {/* Controles */}
-      <div className="w-full max-w-lg bg-gradient-to-r from-purple-900/70 to-indigo-900/70 backdrop-blur-lg p-6 rounded-2xl shadow-2xl border border-purple-500/50 mb-8">
-        <div className="mb-6">
-          <label className="block text-xl font-semibold mb-3 text-yellow-300">
-            Dificultad IA
+    <I18nContext value={t}>
+      <div className="min-h-screen bg-gradient-to-br from-gray-950 via-indigo-950 to-purple-950 text-white flex flex-col items-center p-4 md:p-6">
+        <h1 className="text-4xl md:text-6xl font-extrabold mb-4 text-yellow-400 drop-shadow-2xl animate-pulse">
+          {t.appTitle}
+        </h1>
+        <div className="flex flex-wrap items-center justify-center gap-4 mb-8 text-gray-200">
+          <label className="flex items-center gap-2">
+            {t.languageLabel}
+            <select
+              value={languageSettings.language}
+              onChange={(e) => changeLanguageSettings({ language: e.target.value as Language })}
+              className="p-2 bg-indigo-800/80 border border-yellow-500/70 rounded-lg text-white"
+            >
+              {(Object.entries(LANGUAGE_NAMES) as [Language, string][]).map(([value, name]) => (
+                <option key={value} value={value} lang={value}>{name}</option>
+              ))}
+            </select>
+          </label>
+          <label className={`flex items-center gap-3 ${speechAvailable() ? '' : 'opacity-40'}`} title={speechAvailable() ? undefined : t.speechUnavailable}>
+            <input
+              type="checkbox"
+              checked={languageSettings.speakMoves}
+              disabled={!speechAvailable()}
+              onChange={(e) => changeLanguageSettings({ speakMoves: e.target.checked })}
+              className="w-5 h-5 accent-yellow-400"
+            />
+            {t.speakMoves}
           </label>
-          <select
-            value={difficulty}
-            onChange={(e) => setDifficulty(e.target.value as any)}
-            className="w-full p-4 bg-indigo-800/80 border border-yellow-500/70 rounded-xl text-white text-lg focus:ring-4 focus:ring-yellow-400/50 transition-all shadow-inner"
-          >
-            <option value="amateur">Amateur</option>
-            <option value="media">Media</option>
-            <option value="alta">Alta</option>
-          </select>
-        </div>
-        <div className="flex gap-4">
-          <button onClick={resetGame} className="flex-1 py-4 bg-gradient-to-r from-yellow-500 to-amber-600 hover:from-yellow-600 hover:to-amber-700 text-black font-bold text-lg rounded-xl shadow-xl hover:scale-105 transition-all duration-300">
-            Nueva Partida
-          </button>
-          <button onClick={() => setBoardOrientation(prev => prev === 'white' ? 'black' : 'white')} className="flex-1 py-4 bg-indigo-700 hover:bg-indigo-600 rounded-xl font-semibold text-lg transition-all duration-300 shadow-xl">
-            Girar Tablero
-          </button>
         </div>
-      </div>
+        {/* Anuncio de cada jugada para los lectores de pantalla */}
+        <p className="sr-only" aria-live="polite">{announcement}</p>
+
+        {/* Retomar la última partida sin terminar */}
+        {resumeOffer && moveHistory.length === 0 && (
+          <div className="w-full max-w-lg bg-gray-900/80 p-5 rounded-2xl shadow-2xl border border-yellow-500/60 mb-8 flex flex-col gap-3">
+            <p className="text-lg">
+              {t.resumeOffer(new Date(resumeOffer.updatedAt).toLocaleString(), resumeOffer.moves.length)}
+            </p>
+            <div className="flex gap-3">
+              <button onClick={() => openSavedGame(resumeOffer)} className="flex-1 py-3 bg-gradient-to-r from-yellow-500 to-amber-600 hover:from-yellow-600 hover:to-amber-700 text-black font-bold rounded-xl shadow-xl transition-all duration-300">
+                {t.continueGame}
+              </button>
+              <button onClick={() => setResumeOffer(null)} className="flex-1 py-3 bg-gray-800/80 hover:bg-gray-700 rounded-xl font-semibold transition-all duration-300">
+                {t.notNow}
+              </button>
+            </div>
+          </div>
+        )}
       
-      {/* CÁMARA Y TABLERO */}
-      <div className="w-full max-w-6xl flex flex-col lg:flex-row gap-6 mb-10 items-start">
-        {/* CÁMARA */}
-        <div className="lg:w-2/5 w-full">
-          <div className="bg-gradient-to-br from-indigo-900/80 to-purple-900/80 p-5 rounded-3xl shadow-2xl border border-purple-500/40">
-            <h2 className="text-2xl font-bold mb-4 text-center text-yellow-300 drop-shadow-md">
-              Cámara – Gestos
-            </h2>
-            <div className="relative rounded-2xl overflow-hidden border-4 border-indigo-600/60 shadow-inner mb-3">
-              <Webcam
-                ref={webcamRef}
-                audio={false}
-                videoConstraints={{ facingMode: 'user', width: cameraWidth, height: cameraHeight }}
-                className="w-full h-auto rounded-2xl"
-              />
-              <canvas
-                ref={canvasRef}
-                className="absolute inset-0 w-full h-full rounded-2xl"
-                width={cameraWidth}
-                height={cameraHeight}
-              />
+        {/* Controles */}
+        <div className="w-full max-w-lg bg-gradient-to-r from-purple-900/70 to-indigo-900/70 backdrop-blur-lg p-6 rounded-2xl shadow-2xl border border-purple-500/50 mb-8">
+          <div className="mb-6">
+            <label className="block text-xl font-semibold mb-3 text-yellow-300">
+              {t.gameModeLabel}
+            </label>
+            <select
+              value={gameMode}
+              onChange={(e) => startNewGame(sideChoice, e.target.value as GameMode)}
+              className="w-full p-4 bg-indigo-800/80 border border-yellow-500/70 rounded-xl text-white text-lg focus:ring-4 focus:ring-yellow-400/50 transition-all shadow-inner"
+            >
+              {(Object.entries(t.gameModes) as [GameMode, string][]).map(([value, name]) => (
+                <option key={value} value={value}>{name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="mb-6">
+            <label className="block text-xl font-semibold mb-3 text-yellow-300">
+              {t.timeControlLabel}
+            </label>
+            <select
+              value={timeControlId}
+              onChange={(e) => changeTimeControl(e.target.value as TimeControlId)}
+              disabled={onlineRoom !== null}
+              className="w-full p-4 bg-indigo-800/80 border border-yellow-500/70 rounded-xl text-white text-lg focus:ring-4 focus:ring-yellow-400/50 disabled:opacity-40 transition-all shadow-inner"
+            >
+              {(Object.entries(t.timeControls) as [TimeControlId, string][]).map(([id, name]) => (
+                <option key={id} value={id}>{name}</option>
+              ))}
+            </select>
+            {timeControl && !online && (
+              <label className="flex items-center gap-3 mt-3 text-gray-200">
+                <input
+                  type="checkbox"
+                  checked={pressToConfirm}
+                  onChange={(e) => setPressToConfirm(e.target.checked)}
+                  className="w-5 h-5 accent-yellow-400"
+                />
+                {t.pressToConfirmLabel}
+              </label>
+            )}
+          </div>
+          {twoPlayer ? (
+            <div className="mb-6">
+              <label className="block text-xl font-semibold mb-3 text-yellow-300">
+                {t.handAssignmentLabel}
+              </label>
+              <select
+                value={handAssignment}
+                onChange={(e) => setHandAssignment(e.target.value as HandAssignment)}
+                className="w-full p-4 bg-indigo-800/80 border border-yellow-500/70 rounded-xl text-white text-lg focus:ring-4 focus:ring-yellow-400/50 transition-all shadow-inner"
+              >
+                {HAND_ASSIGNMENTS.map((value) => (
+                  <option key={value} value={value}>{t.handAssignments[value]}</option>
+                ))}
+              </select>
             </div>
-            <div className="bg-gray-900/70 p-4 rounded-xl border border-yellow-500/30">
-              <p className="text-center text-lg font-medium text-green-300 min-h-[2.5rem] flex items-center justify-center mb-2">
-                {gestureStatus}
-              </p>
-              <div className="text-sm text-gray-300 grid grid-cols-1 gap-2">
-                <div className="bg-gray-800/50 p-3 rounded-lg">
-                  <p className="text-yellow-300 font-semibold mb-1">Instrucciones de Movimiento:</p>
-                  <div className="space-y-1">
-                    <p>1. <span className="text-cyan-300">Apunta</span> con el dedo a una pieza blanca</p>
-                    <p>2. <span className="text-green-300">Pellizca</span> (une índice y pulgar) para agarrarla</p>
-                    <p>3. <span className="text-yellow-300">Arrastra</span> manteniendo el pellizco</p>
-                    <p>4. <span className="text-red-300">Suelta</span> el pellizco para soltar la pieza</p>
-                  </div>
+          ) : (
+            <>
+              {gameMode === 'ai' && (
+                <div className="mb-6">
+                  <label className="block text-xl font-semibold mb-3 text-yellow-300">
+                    {t.difficultyLabel}
+                  </label>
+                  <select
+                    value={difficulty}
+                    onChange={(e) => setDifficulty(e.target.value as Difficulty)}
+                    className="w-full p-4 bg-indigo-800/80 border border-yellow-500/70 rounded-xl text-white text-lg focus:ring-4 focus:ring-yellow-400/50 transition-all shadow-inner"
+                  >
+                    {(Object.entries(t.difficulties) as [Difficulty, string][]).map(([value, name]) => (
+                      <option key={value} value={value}>{name}</option>
+                    ))}
+                  </select>
+                  <label className="flex items-center gap-3 mt-3 text-gray-200">
+                    <input
+                      type="checkbox"
+                      checked={playBookMoves}
+                      onChange={(e) => setPlayBookMoves(e.target.checked)}
+                      className="w-5 h-5 accent-yellow-400"
+                    />
+                    {t.bookMovesLabel}
+                  </label>
                 </div>
+              )}
+              <div className="mb-6">
+                <label className="block text-xl font-semibold mb-3 text-yellow-300">
+                  {t.yourColorLabel}
+                </label>
+                <select
+                  value={sideChoice}
+                  onChange={(e) => {
+                    const choice = e.target.value as SideChoice;
+                    setSideChoice(choice);
+                    startNewGame(choice, gameMode);
+                  }}
+                  className="w-full p-4 bg-indigo-800/80 border border-yellow-500/70 rounded-xl text-white text-lg focus:ring-4 focus:ring-yellow-400/50 transition-all shadow-inner"
+                >
+                  {(Object.entries(t.sideChoices) as [SideChoice, string][]).map(([value, name]) => (
+                    <option key={value} value={value}>{name}</option>
+                  ))}
+                </select>
               </div>
-            </div>
+            </>
+          )}
+          <div className="flex gap-4">
+            <button onClick={resetGame} disabled={onlineRoom !== null} className="flex-1 py-4 bg-gradient-to-r from-yellow-500 to-amber-600 hover:from-yellow-600 hover:to-amber-700 disabled:opacity-40 text-black font-bold text-lg rounded-xl shadow-xl hover:scale-105 transition-all duration-300">
+              {t.newGameButton}
+            </button>
+            <button onClick={() => setBoardOrientation(prev => prev === 'white' ? 'black' : 'white')} className="flex-1 py-4 bg-indigo-700 hover:bg-indigo-600 rounded-xl font-semibold text-lg transition-all duration-300 shadow-xl">
+              {t.flipBoardButton}
+            </button>
           </div>
-        </div>
-
-        {/* TABLERO */}
-        <div className="lg:w-3/5 w-full">
-          <div
-            ref={boardContainerRef}
-            className="bg-gradient-to-br from-purple-950/90 to-indigo-950/90 p-5 rounded-3xl shadow-2xl border-4 border-yellow-600/50 flex justify-center items-center"
-          >
-            <div style={{ width: '100%', maxWidth: `${boardSize}px`, position: 'relative' }}>
-              <Chessboard
-                boardWidth={boardSize}
-                options={{
-                  position: game.fen(),
-                  onPieceDrop: onDrop,
-                  boardOrientation,
-                  arePiecesDraggable: game.turn() === 'w' && !game.isGameOver(),
-                  customDarkSquareStyle: { backgroundColor: '#4a148c' },
-                  customLightSquareStyle: { backgroundColor: '#7b1fa2' },
-                  animationDuration: 350,
-                  customSquareStyles: {
-                    ...(highlightedSquare ? {
-                      [highlightedSquare]: {
-                        backgroundColor: 'rgba(255, 215, 0, 0.4)',
-                        boxShadow: 'inset 0 0 15px rgba(255, 215, 0, 0.5)',
-                        borderRadius: '4px'
-                      }
-                    } : {}),
-                    ...(selectedSquare ? {
-                      [selectedSquare]: {
-                        backgroundColor: 'rgba(34, 197, 94, 0.7)',
-                        boxShadow: 'inset 0 0 20px rgba(34, 197, 94, 0.9)',
-                        borderRadius: '4px'
-                      }
-                    } : {})
-                  },
+          {!online && !puzzleRun && (
+            <button
+              onClick={() => resign(twoPlayer ? game.turn() : playerColor)}
+              disabled={gameFinished || moveHistory.length === 0}
+              className="w-full mt-4 py-3 bg-red-800/80 hover:bg-red-700 disabled:opacity-40 rounded-xl font-semibold transition-all duration-300 shadow-xl"
+            >
+              {t.resignButton}
+            </button>
+          )}
+          {online && (
+            <div className="mt-6">
+              <NetworkPanel
+                roomCode={onlineRoom?.code ?? null}
+                connecting={connecting}
+                opponentConnected={onlineRoom?.opponentConnected ?? false}
+                drawOffer={onlineRoom?.drawOffer ?? null}
+                gameOver={!!onlineRoom?.result || game.isGameOver()}
+                onCreate={createRoom}
+                onJoin={joinRoom}
+                onLeave={() => {
+                  leaveRoom();
+                  setStatusMessage(t.leftRoom);
                 }}
+                onResign={() => roomClientRef.current?.send({ type: 'resign' })}
+                onOfferDraw={offerDraw}
+                onRespondDraw={respondDraw}
+                onResync={() => roomClientRef.current?.send({ type: 'resync' })}
               />
-              
-              {/* Cursor de mano con feedback de arrastre */}
-              <div className="absolute pointer-events-none inset-0 z-50">
-                {cursorPos && (
-                  <div
-                    style={{
-                      position: 'absolute',
-                      left: 0,
-                      top: 0,
-                      width: '100%',
-                      height: '100%',
-                      transform: `translate(${cursorPos.x}px, ${cursorPos.y}px) translate(-50%, -50%)`,
-                      transition: 'transform 0.04s ease-out',
-                      willChange: 'transform',
-                    }}
-                  >
-                    {/* Cursor estilo mano - cambia según estado */}
-                    <svg width="44" height="44" viewBox="0 0 44 44" fill="none">
-                      {/* Sombra */}
-                      <path
-                        d="M14 4 L14 30 L22 22 L26 34 L32 30 L26 18 L36 18 L14 4 Z"
-                        fill="rgba(0,0,0,0.4)"
-                        transform="translate(2, 2)"
-                      />
-                      
-                      {/* Mano */}
-                      <path
-                        d="M14 4 L14 30 L22 22 L26 34 L32 30 L26 18 L36 18 L14 4 Z"
-                        fill={isDragging ? '#22c55e' : '#ffffff'}
-                        stroke={isDragging ? '#16a34a' : '#3b82f6'}
-                        strokeWidth="2"
-                      />
-                      
-                      {/* Indicador de pellizco cuando está arrastrando */}
-                      {isDragging && (
-                        <>
-                          <circle cx="22" cy="10" r="5" fill="#22c55e" opacity="0.9">
-                            <animate attributeName="r" values="5;7;5" dur="0.8s" repeatCount="indefinite" />
-                          </circle>
-                          <circle cx="22" cy="10" r="3" fill="#ffffff" />
-                        </>
-                      )}
-                      
-                      {/* Indicador de apuntando cuando no está arrastrando */}
-                      {!isDragging && (
-                        <circle cx="36" cy="4" r="3" fill="#3b82f6" opacity="0.8">
-                          <animate attributeName="opacity" values="0.8;0.4;0.8" dur="1.5s" repeatCount="indefinite" />
-                        </circle>
-                      )}
-                    </svg>
-                    
-                    {/* Flecha de movimiento cuando está arrastrando */}
-                    {isDragging && dragStartSquare && highlightedSquare && dragStartSquare !== highlightedSquare && (
-                      <div className="absolute -top-14 left-1/2 transform -translate-x-1/2">
-                        <div className="bg-gradient-to-r from-green-500 to-emerald-600 text-white px-3 py-1.5 rounded-lg text-sm font-bold whitespace-nowrap shadow-2xl border border-green-400 animate-pulse">
-                          {dragStartSquare} → {highlightedSquare}
-                          <div className="absolute -bottom-1 left-1/2 transform -translate-x-1/2 w-0 h-0 border-l-4 border-r-4 border-t-4 border-l-transparent border-r-transparent border-t-emerald-600"></div>
-                        </div>
-                      </div>
-                    )}
-                    
-                    {/* Indicador de pieza agarrada */}
-                    {isDragging && dragStartSquare && (
-                      <div className="absolute -bottom-10 left-1/2 transform -translate-x-1/2">
-                        <div className="bg-gradient-to-r from-emerald-600 to-green-700 text-white px-3 py-1.5 rounded-lg text-xs font-bold whitespace-nowrap shadow-xl border border-emerald-500">
-                          Pieza agarrada ✓
-                        </div>
+            </div>
+          )}
+        </div>
+      
+        {/* CÁMARA Y TABLERO */}
+        <div className="w-full max-w-6xl flex flex-col lg:flex-row gap-6 mb-10 items-start">
+          {/* CÁMARA */}
+          <div className="lg:w-2/5 w-full">
+            <div className="bg-gradient-to-br from-indigo-900/80 to-purple-900/80 p-5 rounded-3xl shadow-2xl border border-purple-500/40">
+              <h2 className="text-2xl font-bold mb-4 text-center text-yellow-300 drop-shadow-md">
+                {t.cameraTitle}
+              </h2>
+              <div
+                className="relative rounded-2xl overflow-hidden border-4 border-indigo-600/60 shadow-inner mb-3 bg-gray-900"
+                style={cameraAvailable ? undefined : { aspectRatio: `${cameraWidth} / ${cameraHeight}` }}
+              >
+                {cameraAvailable && (
+                  <Webcam
+                    ref={webcamRef}
+                    audio={false}
+                    videoConstraints={{ facingMode: 'user', width: cameraWidth, height: cameraHeight }}
+                    onUserMedia={handleUserMedia}
+                    onUserMediaError={handleUserMediaError}
+                    className="w-full h-auto rounded-2xl"
+                  />
+                )}
+                {!cameraAvailable && !replaySource && (
+                  <div className="absolute inset-0 z-10 flex flex-col items-center justify-center gap-3 p-4 text-center">
+                    <p className="text-lg font-semibold text-yellow-300">{t.cameraUnavailable}</p>
+                    <button onClick={retryCamera} className="px-5 py-2 bg-indigo-700 hover:bg-indigo-600 rounded-xl font-semibold transition-all duration-300">
+                      {t.retryCamera}
+                    </button>
+                  </div>
+                )}
+                <canvas
+                  ref={canvasRef}
+                  className="absolute inset-0 w-full h-full rounded-2xl"
+                  width={cameraWidth}
+                  height={cameraHeight}
+                />
+                {/* Rendimiento del seguimiento: lo escribe el cliente del worker, fuera de React */}
+                <p
+                  ref={trackingStatsRef}
+                  className="absolute top-2 right-2 z-10 px-2 py-0.5 rounded-md bg-black/60 text-xs font-mono text-gray-200 empty:hidden"
+                />
+              </div>
+              <div className="bg-gray-900/70 p-4 rounded-xl border border-yellow-500/30">
+                <p aria-live="polite" className="text-center text-lg font-medium text-green-300 min-h-[2.5rem] flex items-center justify-center mb-2">
+                  {gestureStatus}
+                </p>
+                <div className="text-sm text-gray-300 grid grid-cols-1 gap-2">
+                  <div className="bg-gray-800/50 p-3 rounded-lg">
+                    <p className="text-yellow-300 font-semibold mb-1">{t.instructionsTitle}</p>
+                    {mouseOnly ? (
+                      <p>{t.mouseOnlyInstructions[0]}<span className="text-cyan-300">{t.mouseOnlyInstructions[1]}</span>{t.mouseOnlyInstructions[2]}</p>
+                    ) : (
+                      <div className="space-y-1">
+                        {twoPlayer && (
+                          <p>{t.twoPlayerHands(t.handAssignments[handAssignment])}</p>
+                        )}
+                        {t.gestureSteps.map(([before, highlighted, after], index) => (
+                          <p key={index}>{before}<span className={STEP_COLORS[index]}>{highlighted}</span>{after}</p>
+                        ))}
+                        {clock && (
+                          <p>{t.clockGestureStep[0]}<span className="text-yellow-300">{t.clockGestureStep[1]}</span>{t.clockGestureStep[2]}</p>
+                        )}
                       </div>
                     )}
                   </div>
+                </div>
+              </div>
+              <div className="flex gap-3 mt-3">
+                {calibrationPoints ? (
+                  <button onClick={() => setCalibrationPoints(null)} className="flex-1 py-3 bg-gray-800/80 hover:bg-gray-700 rounded-xl font-semibold transition-all duration-300">
+                    {t.cancelCalibration}
+                  </button>
+                ) : (
+                  <>
+                    <button onClick={() => startCalibration('hands')} disabled={mouseOnly} className="flex-1 py-3 bg-indigo-700 hover:bg-indigo-600 disabled:opacity-40 rounded-xl font-semibold transition-all duration-300 shadow-xl">
+                      {t.calibrateCamera}
+                    </button>
+                    <button
+                      onClick={resetCalibration}
+                      disabled={calibration === DEFAULT_CALIBRATION}
+                      className="flex-1 py-3 bg-gray-800/80 hover:bg-gray-700 disabled:opacity-40 rounded-xl font-semibold transition-all duration-300"
+                    >
+                      {t.useWholeCamera}
+                    </button>
+                  </>
+                )}
+              </div>
+              <label className="flex items-center gap-3 mt-3 text-gray-200">
+                <input
+                  type="checkbox"
+                  checked={arView}
+                  onChange={(e) => setArView(e.target.checked)}
+                  className="w-5 h-5 accent-yellow-400"
+                />
+                {t.arViewLabel}
+              </label>
+              {arView && !calibrationPoints && (
+                <div className="flex gap-3 mt-3">
+                  <button onClick={() => startCalibration('ar')} disabled={mouseOnly} className="flex-1 py-3 bg-indigo-700 hover:bg-indigo-600 disabled:opacity-40 rounded-xl font-semibold transition-all duration-300 shadow-xl">
+                    {t.calibrateArSurface}
+                  </button>
+                  <button
+                    onClick={resetArSurface}
+                    disabled={!arSurface}
+                    className="flex-1 py-3 bg-gray-800/80 hover:bg-gray-700 disabled:opacity-40 rounded-xl font-semibold transition-all duration-300"
+                  >
+                    {t.useHandRegionForAr}
+                  </button>
+                </div>
+              )}
+              <label className={`flex items-center gap-3 mt-3 text-gray-200 ${online ? 'opacity-40' : ''}`}>
+                <input
+                  type="checkbox"
+                  checked={showHint}
+                  disabled={online}
+                  onChange={(e) => setShowHint(e.target.checked)}
+                  className="w-5 h-5 accent-yellow-400"
+                />
+                {t.hintLabel}
+              </label>
+              <label className={`flex items-center gap-3 mt-3 text-gray-200 ${mouseOnly || replaySource ? 'opacity-40' : ''}`}>
+                <input
+                  type="checkbox"
+                  checked={boardMode}
+                  disabled={mouseOnly || !!replaySource}
+                  onChange={(e) => changeBoardMode(e.target.checked)}
+                  className="w-5 h-5 accent-yellow-400"
+                />
+                {t.boardModeLabel}
+              </label>
+              {boardMode && (
+                <div className="mt-3 bg-gray-900/70 p-3 rounded-xl border border-yellow-500/30 text-sm text-gray-300 space-y-2">
+                  <p>{t.boardModeHelp(boardOrientation === 'white' ? 'a8' : 'h1')}</p>
+                  {pendingPhysicalMove && (
+                    <p className="text-orange-300 font-semibold">
+                      {t.physicalPending(pendingPhysicalMove.san, pendingPhysicalMove.from, pendingPhysicalMove.to)}
+                    </p>
+                  )}
+                  {physicalCandidates && (
+                    <div>
+                      <p className="text-yellow-300 font-semibold mb-2">{t.whichMove}</p>
+                      <div className="flex flex-wrap gap-2">
+                        {physicalCandidates.map((move) => (
+                          <button
+                            key={move.lan}
+                            onClick={() => playPhysicalMove(move)}
+                            className="px-3 py-2 bg-indigo-700 hover:bg-indigo-600 rounded-lg font-semibold transition-all duration-300"
+                          >
+                            {move.san}
+                          </button>
+                        ))}
+                        <button
+                          onClick={() => {
+                            setPhysicalCandidates(null);
+                            setStatusMessage(t.physicalRetry);
+                          }}
+                          className="px-3 py-2 bg-gray-800/80 hover:bg-gray-700 rounded-lg font-semibold transition-all duration-300"
+                        >
+                          {t.noneOfThem}
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+              <div className="flex gap-3 mt-3">
+                <button
+                  onClick={toggleRecording}
+                  disabled={!!replaySource || mouseOnly}
+                  className={`flex-1 py-3 rounded-xl font-semibold transition-all duration-300 disabled:opacity-40 ${isRecording ? 'bg-red-700 hover:bg-red-600 animate-pulse' : 'bg-gray-800/80 hover:bg-gray-700'}`}
+                >
+                  {isRecording ? t.stopAndSave : t.recordGestures}
+                </button>
+                {replaySource ? (
+                  <button onClick={() => stopReplay(t.replayStopped)} className="flex-1 py-3 bg-gray-800/80 hover:bg-gray-700 rounded-xl font-semibold transition-all duration-300">
+                    {t.stopReplay}
+                  </button>
+                ) : (
+                  <label className={`flex-1 py-3 text-center bg-gray-800/80 hover:bg-gray-700 rounded-xl font-semibold transition-all duration-300 ${isRecording ? 'opacity-40 pointer-events-none' : 'cursor-pointer'}`}>
+                    {t.playRecording}
+                    <input
+                      type="file"
+                      accept="application/json,.json"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) loadReplay(file);
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
                 )}
               </div>
+              <div className="flex gap-3 mt-3">
+                <label className="flex-1 text-sm text-gray-300 text-left">
+                  {t.inputModeLabel}
+                  <select
+                    value={inputSettings.mode}
+                    onChange={(e) => changeInputSettings({ mode: e.target.value as InputMode })}
+                    className="w-full mt-1 p-3 bg-indigo-800/80 border border-yellow-500/70 rounded-xl text-white"
+                  >
+                    {INPUT_MODES.map((value) => (
+                      <option key={value} value={value}>{t.inputModes[value]}</option>
+                    ))}
+                  </select>
+                </label>
+                {inputSettings.mode === 'dwell' && (
+                  <label className="w-32 text-sm text-gray-300 text-left">
+                    {t.dwellTimeLabel}
+                    <select
+                      value={inputSettings.dwellMs}
+                      onChange={(e) => changeInputSettings({ dwellMs: Number(e.target.value) })}
+                      className="w-full mt-1 p-3 bg-indigo-800/80 border border-yellow-500/70 rounded-xl text-white"
+                    >
+                      {DWELL_TIMES_MS.map((ms) => (
+                        <option key={ms} value={ms}>{(ms / 1000).toLocaleString()} s</option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+              </div>
+              <GestureBindingsPanel
+                bindings={gestureBindings}
+                onChange={changeGestureBinding}
+                twoPalmsUnavailable={twoPlayer && handAssignment === 'handedness'}
+              />
             </div>
           </div>
+
+          {/* TABLERO Y RELOJES */}
+          <div className="lg:w-3/5 w-full flex gap-4 items-stretch">
+            {analysisActive && (
+              <div className="shrink-0">
+                <EvalBar evaluation={analysisEvals[displayedPly] ?? null} bottom={boardOrientation === 'white' ? 'w' : 'b'} />
+              </div>
+            )}
+            <div
+              ref={boardContainerRef}
+              className="flex-1 min-w-0 bg-gradient-to-br from-purple-950/90 to-indigo-950/90 p-5 rounded-3xl shadow-2xl border-4 border-yellow-600/50 flex justify-center items-center"
+            >
+              <div style={{ width: '100%', maxWidth: `${boardSize}px`, position: 'relative' }}>
+                <Chessboard
+                  options={{
+                    position: displayedFen,
+                    onPieceDrop: onDrop,
+                    boardOrientation,
+                    allowDragging: isHumanTurn && !game.isGameOver() && !pendingPromotion && !moveLockReason,
+                    canDragPiece: ({ piece }) => piece.pieceType[0] === game.turn(),
+                    darkSquareStyle: { backgroundColor: '#4a148c' },
+                    lightSquareStyle: { backgroundColor: '#7b1fa2' },
+                    animationDurationInMs: 350,
+                    squareStyles: handSquareStyles,
+                    arrows: boardArrows,
+                  }}
+                />
+
+                {pendingPromotion && (
+                  <PromotionPicker
+                    color={game.turn()}
+                    hovered={hoveredPromotion}
+                    choiceRefs={promotionChoiceRefs}
+                    onSelect={completePromotion}
+                    onCancel={cancelPromotion}
+                  />
+                )}
+              
+                {/* Cursor de mano de cada lado */}
+                <div className="absolute pointer-events-none inset-0 z-50">
+                  {SIDES.map((side) => hands[side].cursor && (
+                    <HandCursor
+                      key={side}
+                      ref={(element) => {
+                        cursorElementsRef.current[side] = element;
+                        placeCursor(side);
+                      }}
+                      color={side}
+                      dragStartSquare={hands[side].dragStartSquare}
+                      highlightedSquare={hands[side].highlightedSquare}
+                      showLabel={twoPlayer}
+                      ringRef={(element) => {
+                        ringElementsRef.current[side] = element;
+                        placeRing(side);
+                      }}
+                      holdLabel={hands[side].dwell ?? (hands[side].hold && (
+                        `${t.gestures[hands[side].hold]}: ${t.commands[gestureBindings[hands[side].hold]]}`
+                      ))}
+                    />
+                  ))}
+                </div>
+              </div>
+            </div>
+            {clock && timeControl && (
+              <div className="w-32 shrink-0">
+                <ClockPanel
+                  top={boardOrientation === 'white' ? 'b' : 'w'}
+                  clock={clock}
+                  flagged={timeForfeit}
+                  awaitingPress={clockAwaitingPress}
+                  controlName={t.timeControls[timeControlId]}
+                  onPress={confirmMove}
+                />
+              </div>
+            )}
+          </div>
         </div>
-      </div>
       
-      {/* Estado del juego */}
-      <div className={`w-full max-w-6xl text-3xl font-extrabold mb-6 p-4 rounded-2xl shadow-xl border-2 ${game.isCheckmate() ? 'bg-red-900/70 text-red-300 border-red-500 animate-pulse' :
-          game.isDraw() ? 'bg-green-900/70 text-green-300 border-green-500' :
-            game.inCheck() ? 'bg-orange-900/70 text-orange-300 border-orange-500' :
-              'bg-indigo-900/70 text-yellow-300 border-yellow-500'
-        }`}>
-        {game.isCheckmate() ? '¡Jaque Mate!' :
-          game.isDraw() ? 'Tablas' :
-            game.inCheck() ? '¡Jaque!' : statusMessage}
-      </div>
-      
-      <div className="text-gray-300 text-base bg-gray-900/60 px-5 py-3 rounded-xl border border-purple-600/40">
-        <div className="flex flex-wrap items-center justify-center gap-4">
-          <span>Movimientos: <span className="text-yellow-300 font-bold">{game.history().length}</span></span>
-          <span>•</span>
-          <span>Turno: <span className={`font-bold ${game.turn() === 'w' ? 'text-green-300' : 'text-red-300'}`}>
-            {game.turn() === 'w' ? 'Tú (blancas)' : 'IA (negras)'}
-          </span></span>
-          <span>•</span>
-          <span>Estado: <span className={`font-bold ${isDragging ? 'text-green-400' : 'text-blue-300'}`}>
-            {isDragging ? 'Arrastrando pieza' : 'Listo para mover'}
-          </span></span>
-          {dragStartSquare && (
-            <>
-              <span>•</span>
-              <span>Origen: <span className="text-yellow-300 font-bold">{dragStartSquare}</span></span>
-            </>
+        {/* Estado del juego */}
+        <div className={`w-full max-w-6xl text-3xl font-extrabold mb-6 p-4 rounded-2xl shadow-xl border-2 ${game.isCheckmate() ? 'bg-red-900/70 text-red-300 border-red-500 animate-pulse' :
+            timeForfeit || resigned ? 'bg-red-900/70 text-red-300 border-red-500' :
+            game.isDraw() ? 'bg-green-900/70 text-green-300 border-green-500' :
+              game.inCheck() ? 'bg-orange-900/70 text-orange-300 border-orange-500' :
+                'bg-indigo-900/70 text-yellow-300 border-yellow-500'
+          }`}>
+          {isViewingPast ? t.reviewingMove(viewPly, moveHistory.length) :
+            resultText ??
+            (game.isCheckmate() ? t.checkmate :
+            game.isDraw() ? t.draw :
+              game.inCheck() ? t.check :
+                isAIThinking ? t.aiThinking : statusMessage)}
+          {engineFailed && !isViewingPast && (
+            <button onClick={retryEngine} className="ml-4 px-4 py-2 align-middle text-base bg-indigo-700 hover:bg-indigo-600 text-white rounded-xl font-semibold transition-all duration-300">
+              {t.retryEngine}
+            </button>
           )}
         </div>
+      
+        <div className="text-gray-300 text-base bg-gray-900/60 px-5 py-3 rounded-xl border border-purple-600/40">
+          <div className="flex flex-wrap items-center justify-center gap-4">
+            <span>{t.movesLabel}: <span className="text-yellow-300 font-bold">{moveHistory.length}</span></span>
+            {opening && (
+              <>
+                <span>•</span>
+                <span>{t.openingLabel}: <span className="text-yellow-300 font-bold">{opening.eco} {t.openingName(opening)}</span></span>
+              </>
+            )}
+            <span>•</span>
+            <span>{t.turnLabel}: <span className={`font-bold ${isHumanTurn ? 'text-green-300' : 'text-red-300'}`}>
+              {twoPlayer
+                ? t.turnLocal(t.localPlayerNames[game.turn()], game.turn())
+                : game.turn() === playerColor
+                  ? t.turnYou(playerColor)
+                  : online ? t.turnOpponent(aiColor)
+                    : t.turnAi(aiColor, isAIThinking)}
+            </span></span>
+            <span>•</span>
+            <span>{t.stateLabel}: <span className={`font-bold ${activeDragSquare ? 'text-green-400' : 'text-blue-300'}`}>
+              {activeDragSquare ? t.draggingPiece : t.readyToMove}
+            </span></span>
+            {activeDragSquare && (
+              <>
+                <span>•</span>
+                <span>{t.originLabel}: <span className="text-yellow-300 font-bold">{activeDragSquare}</span></span>
+              </>
+            )}
+          </div>
+        </div>
+
+        {/* Registro de la partida */}
+        <div className="w-full max-w-6xl flex flex-col lg:flex-row gap-6 mt-6">
+          <div className="lg:w-1/2 w-full bg-gradient-to-br from-indigo-900/80 to-purple-900/80 p-5 rounded-3xl shadow-2xl border border-purple-500/40">
+            <h2 className="text-2xl font-bold mb-4 text-center text-yellow-300 drop-shadow-md">{t.movesTitle}</h2>
+            <MoveList
+              moves={moveHistory}
+              ply={viewPly ?? moveHistory.length}
+              startsWithBlack={positions[0].split(' ')[1] === 'b'}
+              firstMoveNumber={Number(positions[0].split(' ')[5]) || 1}
+              onSelectPly={selectPly}
+              annotations={moveReviews.map((review) => review.classification)}
+            />
+            <button
+              onClick={takeBack}
+              disabled={!canTakeBack || !!replaySource}
+              className="w-full mt-3 py-3 bg-gradient-to-r from-yellow-500 to-amber-600 hover:from-yellow-600 hover:to-amber-700 disabled:opacity-40 text-black font-bold rounded-xl shadow-xl transition-all duration-300"
+            >
+              {t.undoMove}
+            </button>
+          </div>
+          <div className="lg:w-1/2 w-full bg-gradient-to-br from-indigo-900/80 to-purple-900/80 p-5 rounded-3xl shadow-2xl border border-purple-500/40">
+            <h2 className="text-2xl font-bold mb-4 text-center text-yellow-300 drop-shadow-md">{t.pgnTitle}</h2>
+            <PgnPanel fen={displayedFen} onExportPgn={handleExportPgn} onImport={handleImport} />
+          </div>
+        </div>
+
+        {/* Explorador de aperturas */}
+        <div className="w-full max-w-6xl mt-6 bg-gradient-to-br from-indigo-900/80 to-purple-900/80 p-5 rounded-3xl shadow-2xl border border-purple-500/40">
+          <h2 className="text-2xl font-bold mb-4 text-center text-yellow-300 drop-shadow-md">{t.explorerTitle}</h2>
+          <OpeningExplorer
+            opening={opening}
+            moves={bookMoves}
+            playLockReason={moveLockReason ?? (isHumanTurn ? null : t.waitYourTurn)}
+            onPlay={(move) => makeMove(move.from, move.to, move.promotion)}
+          />
+        </div>
+
+        {/* Análisis */}
+        <div className="w-full max-w-6xl mt-6 bg-gradient-to-br from-indigo-900/80 to-purple-900/80 p-5 rounded-3xl shadow-2xl border border-purple-500/40">
+          <h2 className="text-2xl font-bold mb-4 text-center text-yellow-300 drop-shadow-md">{t.analysisTitle}</h2>
+          <AnalysisPanel
+            canAnalyze={gameFinished && !replaySource}
+            analyzing={analyzing}
+            progress={analysisActive ? { done: analysisEvals.length, total: positions.length } : null}
+            reviews={moveReviews}
+            summary={analysisSummary}
+            playerNames={playerNames}
+            onAnalyze={startAnalysis}
+            onCancel={cancelAnalysis}
+            onSelectPly={selectPly}
+          />
+        </div>
+
+        {/* Entrenamiento con problemas */}
+        <div className="w-full max-w-6xl mt-6 bg-gradient-to-br from-indigo-900/80 to-purple-900/80 p-5 rounded-3xl shadow-2xl border border-purple-500/40">
+          <h2 className="text-2xl font-bold mb-4 text-center text-yellow-300 drop-shadow-md">{t.puzzlesTitle}</h2>
+          <PuzzlePanel
+            set={puzzleRun?.set ?? null}
+            index={puzzleRun?.index ?? 0}
+            status={puzzleStatus}
+            progress={puzzleProgress}
+            onLoad={loadPuzzles}
+            onNext={() => puzzleRun && startPuzzle(puzzleRun.set, puzzleRun.index + 1)}
+            onRetry={() => puzzleRun && startPuzzle(puzzleRun.set, puzzleRun.index)}
+            onShowSolution={showPuzzleSolution}
+            onExit={resetGame}
+            onClearProgress={resetPuzzleProgress}
+          />
+        </div>
+
+        {/* Mis partidas */}
+        <div className="w-full max-w-6xl mt-6 bg-gradient-to-br from-indigo-900/80 to-purple-900/80 p-5 rounded-3xl shadow-2xl border border-purple-500/40">
+          <h2 className="text-2xl font-bold mb-4 text-center text-yellow-300 drop-shadow-md">{t.libraryTitle}</h2>
+          <GameLibrary
+            games={savedGames}
+            currentId={savedGameKey.id}
+            onOpen={openSavedGame}
+            onReplay={replaySavedGame}
+            onDelete={removeSavedGame}
+            onExport={exportSavedGame}
+          />
+        </div>
       </div>
-    </div>
+    </I18nContext>
   );
 }
 
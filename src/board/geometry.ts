@@ -0,0 +1,34 @@
+import type { Color, Square } from 'chess.js';
+
+export type BoardOrientation = 'white' | 'black';
+
+export function orientationFor(color: Color): BoardOrientation {
+  return color === 'w' ? 'white' : 'black';
+}
+
+// Convierte un punto en píxeles del tablero a la casilla que se ve en pantalla.
+// Con las negras abajo, columnas y filas aparecen invertidas.
+export function getSquareFromPosition(
+  x: number,
+  y: number,
+  boardW: number,
+  boardH: number,
+  orientation: BoardOrientation,
+): Square | null {
+  const col = Math.floor(x / (boardW / 8));
+  const row = Math.floor(y / (boardH / 8));
+  if (col < 0 || col > 7 || row < 0 || row > 7) return null;
+  const fileIdx = orientation === 'white' ? col : 7 - col;
+  const rankIdx = orientation === 'white' ? 7 - row : row;
+  return `${'abcdefgh'[fileIdx]}${rankIdx + 1}` as Square;
+}
+
+// Inversa de getSquareFromPosition: columna y fila (0-7) en que se ve una casilla
+export function squareCell(square: Square, orientation: BoardOrientation): { col: number; row: number } {
+  const fileIdx = square.charCodeAt(0) - 'a'.charCodeAt(0);
+  const rankIdx = Number(square[1]) - 1;
+  return {
+    col: orientation === 'white' ? fileIdx : 7 - fileIdx,
+    row: orientation === 'white' ? 7 - rankIdx : rankIdx,
+  };
+}
@@ -0,0 +1,13 @@
+import type { Chess, Color, PieceSymbol, Square } from 'chess.js';
+
+export const PROMOTION_PIECES: PieceSymbol[] = ['q', 'r', 'b', 'n'];
+
+// Un movimiento legal que lleva un peón a la última fila y necesita elegir pieza
+export function isPromotionMove(game: Chess, from: Square, to: Square): boolean {
+  return game.moves({ square: from, verbose: true }).some((move) => move.to === to && !!move.promotion);
+}
+
+// Sin más piezas que el rey no se puede dar mate (p. ej. al ganar por tiempo son tablas)
+export function hasOnlyKing(game: Chess, color: Color): boolean {
+  return game.board().every((row) => row.every((piece) => !piece || piece.color !== color || piece.type === 'k'));
+}
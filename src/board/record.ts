@@ -0,0 +1,71 @@
+import { Chess, validateFen, type Color } from 'chess.js';
+
+export type GameResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+// Contra la IA, dos jugadores en la misma cámara o en red
+export type GameMode = 'ai' | 'local' | 'online';
+
+export type GameRecordErrorCode = 'empty' | 'invalid-record' | 'room-illegal-move' | 'room-mismatch';
+
+// El texto de cada motivo está en el catálogo de mensajes (errors.record en i18n/messages.ts)
+export class GameRecordError extends Error {
+  readonly code: GameRecordErrorCode;
+  readonly detail: string; // dato concreto que completa el texto (puede estar vacío)
+
+  constructor(code: GameRecordErrorCode, detail = '') {
+    super(detail ? `${code}: ${detail}` : code);
+    this.name = 'GameRecordError';
+    this.code = code;
+    this.detail = detail;
+  }
+}
+
+// Copia la partida conservando cabeceras e historial (new Chess(fen) los pierde)
+export function cloneGame(game: Chess): Chess {
+  const copy = new Chess();
+  copy.loadPgn(game.pgn());
+  return copy;
+}
+
+export function winnerResult(winner: Color | null): GameResult {
+  if (winner === null) return '1/2-1/2';
+  return winner === 'w' ? '1-0' : '0-1';
+}
+
+export function gameResult(game: Chess): GameResult {
+  if (game.isCheckmate()) return game.turn() === 'w' ? '0-1' : '1-0';
+  if (game.isDraw() || game.isStalemate()) return '1/2-1/2';
+  return '*';
+}
+
+// FEN de cada posición de la partida: [inicial, tras la 1ª jugada, ...]
+export function positionsOf(game: Chess): string[] {
+  const history = game.history({ verbose: true });
+  if (history.length === 0) return [game.fen()];
+  return [history[0].before, ...history.map((move) => move.after)];
+}
+
+// PGN con las cabeceras de la partida más las indicadas y el resultado actual
+// (salvo que las cabeceras traigan otro, p. ej. una derrota por tiempo)
+export function exportPgn(game: Chess, headers: Record<string, string>): string {
+  const copy = cloneGame(game);
+  copy.setHeader('Result', gameResult(game));
+  Object.entries(headers).forEach(([key, value]) => copy.setHeader(key, value));
+  return copy.pgn();
+}
+
+// Acepta tanto una FEN como un PGN completo
+export function importGameRecord(text: string): Chess {
+  const input = text.trim();
+  if (!input) throw new GameRecordError('empty');
+
+  if (validateFen(input).ok) return new Chess(input);
+
+  const game = new Chess();
+  try {
+    game.loadPgn(input);
+  } catch (err) {
+    throw new GameRecordError('invalid-record', err instanceof Error ? err.message : String(err));
+  }
+  return game;
+}
@@ -0,0 +1,146 @@
+import type { Color, PieceSymbol, Square } from 'chess.js';
+import { squareCell, type BoardOrientation } from '../board/geometry';
+import { applyHomography, type Homography, type Point } from './homography';
+import type { Context2D } from './overlay';
+
+// Lo que se dibuja sobre la superficie calibrada en la vista AR
+export interface ArScene {
+  fen: string; // posición que se ve (puede ser una anterior al revisar la partida)
+  highlighted: Square[]; // casillas apuntadas por las manos
+  selected: Square[]; // piezas agarradas
+  lastMove: { from: Square; to: Square } | null;
+  hint: { from: Square; to: Square } | null; // jugada sugerida por el motor
+}
+
+export interface ArPiece {
+  square: Square;
+  type: PieceSymbol;
+  color: Color;
+}
+
+// Semitransparentes para que se siga viendo la superficie real debajo
+const LIGHT_SQUARE = 'rgba(240, 217, 181, 0.45)';
+const DARK_SQUARE = 'rgba(181, 136, 99, 0.55)';
+const LAST_MOVE = 'rgba(155, 199, 0, 0.45)';
+const HIGHLIGHTED = 'rgba(255, 215, 0, 0.55)';
+const SELECTED = 'rgba(34, 197, 94, 0.7)';
+const HINT_ARROW = 'rgba(59, 130, 246, 0.9)';
+
+// Se usan las figuras rellenas para los dos colores y se pintan de blanco o negro
+const GLYPHS: Record<PieceSymbol, string> = { k: '♚', q: '♛', r: '♜', b: '♝', n: '♞', p: '♟' };
+// Los glifos se dibujan a este tamaño y se escalan a la casilla (un tamaño de fuente < 1px no es fiable)
+const GLYPH_UNITS = 100;
+
+// ────────────────────────────────────────────────
+// Tablero en perspectiva sobre la región calibrada de la cámara
+// ────────────────────────────────────────────────
+export function drawBoardOnCamera(
+  ctx: Context2D,
+  w: number,
+  h: number,
+  boardToCamera: Homography,
+  orientation: BoardOrientation,
+  scene: ArScene,
+  pieces: ArPiece[],
+) {
+  // (u, v) en casillas: 0-8 de izquierda a derecha y de arriba abajo, como se ve el tablero en pantalla
+  const toCanvas = (u: number, v: number): Point => {
+    const p = applyHomography(boardToCamera, { x: u / 8, y: v / 8 });
+    return { x: p.x * w, y: p.y * h };
+  };
+
+  const fillCell = (col: number, row: number, color: string) => {
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    [toCanvas(col, row), toCanvas(col + 1, row), toCanvas(col + 1, row + 1), toCanvas(col, row + 1)].forEach((p, i) => {
+      if (i === 0) ctx.moveTo(p.x, p.y);
+      else ctx.lineTo(p.x, p.y);
+    });
+    ctx.closePath();
+    ctx.fill();
+  };
+  const fillSquare = (square: Square, color: string) => {
+    const { col, row } = squareCell(square, orientation);
+    fillCell(col, row, color);
+  };
+
+  ctx.save();
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) fillCell(col, row, (row + col) % 2 === 0 ? LIGHT_SQUARE : DARK_SQUARE);
+  }
+  if (scene.lastMove) {
+    fillSquare(scene.lastMove.from, LAST_MOVE);
+    fillSquare(scene.lastMove.to, LAST_MOVE);
+  }
+  scene.highlighted.forEach((square) => fillSquare(square, HIGHLIGHTED));
+  scene.selected.forEach((square) => fillSquare(square, SELECTED));
+
+  pieces.forEach((piece) => drawPiece(ctx, toCanvas, squareCell(piece.square, orientation), piece));
+
+  if (scene.hint) {
+    const from = squareCell(scene.hint.from, orientation);
+    const to = squareCell(scene.hint.to, orientation);
+    drawArrow(ctx, toCanvas(from.col + 0.5, from.row + 0.5), toCanvas(to.col + 0.5, to.row + 0.5), cellSize(toCanvas, to));
+  }
+  ctx.restore();
+}
+
+// Lado aproximado de una casilla en píxeles de la cámara
+function cellSize(toCanvas: (u: number, v: number) => Point, { col, row }: { col: number; row: number }): number {
+  const a = toCanvas(col, row);
+  const b = toCanvas(col + 1, row + 1);
+  return Math.hypot(b.x - a.x, b.y - a.y) / Math.SQRT2;
+}
+
+// La figura se deforma con la transformación afín que mejor aproxima la perspectiva en su casilla
+function drawPiece(
+  ctx: Context2D,
+  toCanvas: (u: number, v: number) => Point,
+  { col, row }: { col: number; row: number },
+  piece: ArPiece,
+) {
+  const center = toCanvas(col + 0.5, row + 0.5);
+  const left = toCanvas(col, row + 0.5);
+  const right = toCanvas(col + 1, row + 0.5);
+  const top = toCanvas(col + 0.5, row);
+  const bottom = toCanvas(col + 0.5, row + 1);
+  let ex = { x: (right.x - left.x) / GLYPH_UNITS, y: (right.y - left.y) / GLYPH_UNITS };
+  const ey = { x: (bottom.x - top.x) / GLYPH_UNITS, y: (bottom.y - top.y) / GLYPH_UNITS };
+  // Si la calibración refleja la imagen (como la de por defecto), la figura se desrefleja para que se lea bien
+  if (ex.x * ey.y - ex.y * ey.x < 0) ex = { x: -ex.x, y: -ex.y };
+
+  ctx.save();
+  ctx.setTransform(ex.x, ex.y, ey.x, ey.y, center.x, center.y);
+  ctx.font = `${GLYPH_UNITS * 0.8}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.lineWidth = 6;
+  ctx.strokeStyle = piece.color === 'w' ? '#1f2937' : '#f9fafb';
+  ctx.fillStyle = piece.color === 'w' ? '#ffffff' : '#111827';
+  ctx.strokeText(GLYPHS[piece.type], 0, 4);
+  ctx.fillText(GLYPHS[piece.type], 0, 4);
+  ctx.restore();
+}
+
+function drawArrow(ctx: Context2D, from: Point, to: Point, size: number) {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const head = size * 0.45;
+  // La línea termina donde empieza la punta
+  const end = { x: to.x - Math.cos(angle) * head * 0.8, y: to.y - Math.sin(angle) * head * 0.8 };
+
+  ctx.strokeStyle = HINT_ARROW;
+  ctx.fillStyle = HINT_ARROW;
+  ctx.lineWidth = Math.max(2, size * 0.18);
+  ctx.lineCap = 'round';
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.lineTo(end.x, end.y);
+  ctx.stroke();
+
+  ctx.beginPath();
+  ctx.moveTo(to.x, to.y);
+  ctx.lineTo(to.x - Math.cos(angle - Math.PI / 6) * head, to.y - Math.sin(angle - Math.PI / 6) * head);
+  ctx.lineTo(to.x - Math.cos(angle + Math.PI / 6) * head, to.y - Math.sin(angle + Math.PI / 6) * head);
+  ctx.closePath();
+  ctx.fill();
+}
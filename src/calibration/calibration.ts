@@ -0,0 +1,68 @@
+import { computeHomography, isConvexQuad, UNIT_SQUARE, type Homography, type Point, type Quad } from './homography';
+
+// Región activa de la cámara, en coordenadas normalizadas de MediaPipe (sin espejo),
+// en el orden en que se ven las esquinas del tablero: sup. izq., sup. der., inf. der., inf. izq.
+export interface Calibration {
+  corners: Quad;
+}
+
+export interface CalibrationTransforms {
+  cameraToBoard: Homography;
+  boardToCamera: Homography;
+}
+
+// Sin calibrar se usa todo el encuadre, reflejado horizontalmente como un espejo
+export const DEFAULT_CALIBRATION: Calibration = {
+  corners: [
+    { x: 1, y: 0 },
+    { x: 0, y: 0 },
+    { x: 0, y: 1 },
+    { x: 1, y: 1 },
+  ],
+};
+
+// Qué se calibra: la región en la que se mueven las manos o la superficie sobre la que
+// se dibuja la vista AR. Son independientes: se puede jugar con las manos en el aire y
+// proyectar la partida sobre la mesa. Sin superficie AR propia se usa la de las manos.
+export type CalibrationTarget = 'hands' | 'ar';
+
+const STORAGE_PREFIXES: Record<CalibrationTarget, string> = {
+  hands: 'ajedrezAR.calibration.',
+  ar: 'ajedrezAR.arSurface.',
+};
+
+export function createCalibration(points: Point[]): Calibration | null {
+  if (points.length !== 4) return null;
+  const corners = points as Quad;
+  if (!isConvexQuad(corners) || !getTransforms({ corners })) return null;
+  return { corners };
+}
+
+export function getTransforms(calibration: Calibration): CalibrationTransforms | null {
+  const cameraToBoard = computeHomography(calibration.corners, UNIT_SQUARE);
+  const boardToCamera = computeHomography(UNIT_SQUARE, calibration.corners);
+  if (!cameraToBoard || !boardToCamera) return null;
+  return { cameraToBoard, boardToCamera };
+}
+
+// ────────────────────────────────────────────────
+// Persistencia por cámara (deviceId)
+// ────────────────────────────────────────────────
+export function loadCalibration(deviceId: string, target: CalibrationTarget = 'hands'): Calibration | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIXES[target] + deviceId);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as Calibration;
+    return createCalibration(parsed.corners);
+  } catch {
+    return null;
+  }
+}
+
+export function saveCalibration(deviceId: string, calibration: Calibration, target: CalibrationTarget = 'hands') {
+  localStorage.setItem(STORAGE_PREFIXES[target] + deviceId, JSON.stringify(calibration));
+}
+
+export function clearCalibration(deviceId: string, target: CalibrationTarget = 'hands') {
+  localStorage.removeItem(STORAGE_PREFIXES[target] + deviceId);
+}
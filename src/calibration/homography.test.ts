@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { applyHomography, computeHomography, UNIT_SQUARE, type Point, type Quad } from './homography';
+
+// Tablero visto en perspectiva por la cámara (coordenadas normalizadas de la imagen)
+const CAMERA_QUAD: Quad = [
+  { x: 0.22, y: 0.18 },
+  { x: 0.81, y: 0.25 },
+  { x: 0.9, y: 0.86 },
+  { x: 0.12, y: 0.79 },
+];
+
+function expectClose(actual: Point, expected: Point) {
+  expect(actual.x).toBeCloseTo(expected.x, 9);
+  expect(actual.y).toBeCloseTo(expected.y, 9);
+}
+
+// Punto donde se cruzan las diagonales de un cuadrilátero
+function diagonalsCrossing([a, b, c, d]: Quad): Point {
+  const t = ((d.x - a.x) * (d.y - b.y) - (d.y - a.y) * (d.x - b.x)) / ((c.x - a.x) * (d.y - b.y) - (c.y - a.y) * (d.x - b.x));
+  return { x: a.x + t * (c.x - a.x), y: a.y + t * (c.y - a.y) };
+}
+
+describe('computeHomography', () => {
+  const toCamera = computeHomography(UNIT_SQUARE, CAMERA_QUAD)!;
+  const toBoard = computeHomography(CAMERA_QUAD, UNIT_SQUARE)!;
+
+  it('lleva cada esquina a su pareja', () => {
+    expect(toCamera).not.toBeNull();
+    UNIT_SQUARE.forEach((corner, i) => expectClose(applyHomography(toCamera, corner), CAMERA_QUAD[i]));
+  });
+
+  it('lleva el centro del tablero al cruce de las diagonales de la imagen', () => {
+    // Una homografía conserva las rectas, así que el centro no es la media de las esquinas
+    expectClose(applyHomography(toCamera, { x: 0.5, y: 0.5 }), diagonalsCrossing(CAMERA_QUAD));
+  });
+
+  it('la homografía inversa deshace la directa', () => {
+    expect(toBoard).not.toBeNull();
+    [{ x: 0, y: 0 }, { x: 0.5, y: 0.5 }, { x: 0.125, y: 0.875 }, { x: 0.3, y: 0.7 }].forEach((point) => {
+      expectClose(applyHomography(toBoard, applyHomography(toCamera, point)), point);
+    });
+  });
+
+  it('devuelve null si tres puntos de origen están alineados', () => {
+    const aligned: Quad = [{ x: 0, y: 0 }, { x: 0.5, y: 0.5 }, { x: 1, y: 1 }, { x: 0, y: 1 }];
+    expect(computeHomography(aligned, UNIT_SQUARE)).toBeNull();
+  });
+});
@@ -0,0 +1,80 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Matriz 3x3 por filas; h[8] se normaliza a 1
+export type Homography = number[];
+
+export type Quad = [Point, Point, Point, Point];
+
+// Esquinas del tablero en coordenadas unitarias: sup. izq., sup. der., inf. der., inf. izq.
+export const UNIT_SQUARE: Quad = [
+  { x: 0, y: 0 },
+  { x: 1, y: 0 },
+  { x: 1, y: 1 },
+  { x: 0, y: 1 },
+];
+
+// Homografía que lleva cada punto de `src` a su pareja en `dst` (DLT con 4 puntos).
+// Devuelve null si los puntos están alineados y el sistema no tiene solución.
+export function computeHomography(src: Quad, dst: Quad): Homography | null {
+  const a: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = src[i];
+    const { x: u, y: v } = dst[i];
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+  const solution = solveLinearSystem(a);
+  return solution ? [...solution, 1] : null;
+}
+
+export function applyHomography(h: Homography, p: Point): Point {
+  const w = h[6] * p.x + h[7] * p.y + h[8];
+  return {
+    x: (h[0] * p.x + h[1] * p.y + h[2]) / w,
+    y: (h[3] * p.x + h[4] * p.y + h[5]) / w,
+  };
+}
+
+// Un cuadrilátero sirve como región activa si es convexo y no está degenerado
+export function isConvexQuad(quad: Quad): boolean {
+  let sign = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = quad[i];
+    const b = quad[(i + 1) % 4];
+    const c = quad[(i + 2) % 4];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (Math.abs(cross) < 1e-6) return false;
+    if (sign === 0) sign = Math.sign(cross);
+    else if (Math.sign(cross) !== sign) return false;
+  }
+  return true;
+}
+
+// Eliminación gaussiana con pivote parcial sobre una matriz aumentada n x (n+1)
+function solveLinearSystem(m: number[][]): number[] | null {
+  const n = m.length;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+
+  const x = new Array<number>(n);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
@@ -0,0 +1,50 @@
+import { applyHomography, type Homography, type Point } from './homography';
+
+// Se dibuja tanto en el canvas de la página como en el OffscreenCanvas del worker de manos
+export type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Dibujar cuadrícula 8x8 en cámara sobre la región calibrada
+export function drawGridOnCamera(ctx: Context2D, w: number, h: number, boardToCamera: Homography) {
+  const toCanvas = (u: number, v: number) => {
+    const p = applyHomography(boardToCamera, { x: u, y: v });
+    return { x: p.x * w, y: p.y * h };
+  };
+  const line = (a: Point, b: Point) => {
+    ctx.beginPath(); ctx.moveTo(a.x, a.y); ctx.lineTo(b.x, b.y); ctx.stroke();
+  };
+
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.35)';
+  ctx.lineWidth = 1;
+  for (let i = 1; i < 8; i++) {
+    line(toCanvas(i / 8, 0), toCanvas(i / 8, 1));
+    line(toCanvas(0, i / 8), toCanvas(1, i / 8));
+  }
+
+  // Borde de la región activa
+  ctx.strokeStyle = 'rgba(255, 215, 0, 0.8)';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  [toCanvas(0, 0), toCanvas(1, 0), toCanvas(1, 1), toCanvas(0, 1)].forEach((p, i) => {
+    if (i === 0) ctx.moveTo(p.x, p.y);
+    else ctx.lineTo(p.x, p.y);
+  });
+  ctx.closePath();
+  ctx.stroke();
+}
+
+// Esquinas ya marcadas durante la calibración
+export function drawCalibrationPoints(ctx: Context2D, w: number, h: number, points: Point[]) {
+  ctx.strokeStyle = '#22c55e';
+  ctx.fillStyle = '#22c55e';
+  ctx.lineWidth = 3;
+  ctx.beginPath();
+  points.forEach((p, i) => {
+    if (i === 0) ctx.moveTo(p.x * w, p.y * h);
+    else ctx.lineTo(p.x * w, p.y * h);
+  });
+  ctx.stroke();
+
+  points.forEach((p) => {
+    ctx.beginPath(); ctx.arc(p.x * w, p.y * h, 7, 0, Math.PI * 2); ctx.fill();
+  });
+}
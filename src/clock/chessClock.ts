@@ -0,0 +1,99 @@
+import type { Color } from 'chess.js';
+
+export interface TimeControl {
+  initialMs: number;
+  incrementMs: number; // se suma al pulsar el reloj
+  delayMs: number; // demora simple: el reloj no empieza a bajar hasta pasado este tiempo
+}
+
+export type TimeControlId = 'none' | 'bullet1' | 'bullet2' | 'blitz3' | 'blitz5' | 'blitz5d' | 'rapid10' | 'rapid15';
+
+const MINUTE = 60_000;
+const SECOND = 1000;
+
+export const TIME_CONTROLS: Record<Exclude<TimeControlId, 'none'>, TimeControl> = {
+  bullet1: { initialMs: MINUTE, incrementMs: 0, delayMs: 0 },
+  bullet2: { initialMs: 2 * MINUTE, incrementMs: SECOND, delayMs: 0 },
+  blitz3: { initialMs: 3 * MINUTE, incrementMs: 2 * SECOND, delayMs: 0 },
+  blitz5: { initialMs: 5 * MINUTE, incrementMs: 0, delayMs: 0 },
+  blitz5d: { initialMs: 5 * MINUTE, incrementMs: 0, delayMs: 3 * SECOND },
+  rapid10: { initialMs: 10 * MINUTE, incrementMs: 5 * SECOND, delayMs: 0 },
+  rapid15: { initialMs: 15 * MINUTE, incrementMs: 10 * SECOND, delayMs: 0 },
+};
+
+// Estado inmutable del reloj: cada pulsación devuelve uno nuevo, así vive bien en el estado de React.
+// Los instantes son de performance.now().
+export interface ClockState {
+  control: TimeControl;
+  remaining: Record<Color, number>; // ms de cada lado al empezar el turno en curso
+  running: Color | null;
+  turnStartedAt: number;
+}
+
+export function createClock(control: TimeControl, running: Color | null, now: number): ClockState {
+  return { control, remaining: { w: control.initialMs, b: control.initialMs }, running, turnStartedAt: now };
+}
+
+function charged(clock: ClockState, now: number): number {
+  return Math.max(0, now - clock.turnStartedAt - clock.control.delayMs);
+}
+
+export function timeLeft(clock: ClockState, color: Color, now: number): number {
+  const remaining = clock.remaining[color];
+  return clock.running === color ? Math.max(0, remaining - charged(clock, now)) : remaining;
+}
+
+// Pone en marcha el reloj de `next` descontando el tiempo gastado por el que corría, sin incremento
+// (al cargar una posición, deshacer o resincronizar)
+export function switchClock(clock: ClockState, next: Color | null, now: number): ClockState {
+  const remaining = { ...clock.remaining };
+  if (clock.running) remaining[clock.running] = timeLeft(clock, clock.running, now);
+  return { ...clock, remaining, running: next, turnStartedAt: now };
+}
+
+// Pulsación tras una jugada: el lado que corría recibe el incremento
+export function pressClock(clock: ClockState, next: Color, now: number): ClockState {
+  const switched = switchClock(clock, next, now);
+  if (clock.running && clock.running !== next) {
+    switched.remaining[clock.running] += clock.control.incrementMs;
+  }
+  return switched;
+}
+
+export function stopClock(clock: ClockState, now: number): ClockState {
+  return switchClock(clock, null, now);
+}
+
+export function flaggedSide(clock: ClockState, now: number): Color | null {
+  return clock.running && timeLeft(clock, clock.running, now) <= 0 ? clock.running : null;
+}
+
+// Tiempo de reflexión de la IA según su reloj: una fracción de lo que le queda más casi todo el incremento
+export function thinkTimeFor(clock: ClockState, color: Color, now: number): number {
+  const left = timeLeft(clock, color, now);
+  const budget = left / 30 + clock.control.incrementMs * 0.8 + clock.control.delayMs * 0.8;
+  return Math.max(50, Math.min(budget, left / 2));
+}
+
+// "5:03", o "9.4" en los últimos 10 segundos
+export function formatClock(ms: number): string {
+  if (ms < 10 * SECOND) return (Math.floor(ms / 100) / 10).toFixed(1);
+  const totalSeconds = Math.ceil(ms / SECOND);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+// Cabecera PGN TimeControl: "180+2" (la demora no tiene notación estándar y se omite)
+export function pgnTimeControl(control: TimeControl): string {
+  return `${control.initialMs / SECOND}+${control.incrementMs / SECOND}`;
+}
+
+// Tiempo de cada lado en `now`, para guardarlo y restaurarlo con restoreClock
+export function clockSnapshot(clock: ClockState, now: number): Record<Color, number> {
+  return { w: timeLeft(clock, 'w', now), b: timeLeft(clock, 'b', now) };
+}
+
+export function restoreClock(control: TimeControl, remaining: Record<Color, number>, running: Color | null, now: number): ClockState {
+  return { control, remaining: { ...remaining }, running, turnStartedAt: now };
+}
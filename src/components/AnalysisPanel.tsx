@@ -0,0 +1,94 @@
+import type { Color } from 'chess.js';
+import {
+  MOVE_CLASS_COLORS, MOVE_CLASS_SYMBOLS, type MoveClass, type MoveReview, type SideSummary,
+} from '../engine/gameAnalysis';
+import { useMessages } from '../i18n/i18n';
+
+interface AnalysisPanelProps {
+  // La partida ha terminado y se puede analizar
+  canAnalyze: boolean;
+  analyzing: boolean;
+  progress: { done: number; total: number } | null;
+  reviews: MoveReview[];
+  summary: Record<Color, SideSummary> | null;
+  playerNames: Record<Color, string>;
+  onAnalyze: () => void;
+  onCancel: () => void;
+  onSelectPly: (ply: number) => void;
+}
+
+const REPORTED: MoveClass[] = ['inaccuracy', 'mistake', 'blunder'];
+
+function AnalysisPanel({
+  canAnalyze, analyzing, progress, reviews, summary, playerNames, onAnalyze, onCancel, onSelectPly,
+}: AnalysisPanelProps) {
+  const t = useMessages();
+  const buttonClass = 'w-full py-3 bg-gradient-to-r from-yellow-500 to-amber-600 hover:from-yellow-600 hover:to-amber-700 disabled:opacity-40 text-black font-bold rounded-xl shadow-xl transition-all duration-300';
+  const errors = reviews.filter((review) => REPORTED.includes(review.classification));
+
+  if (!progress) {
+    return (
+      <div className="flex flex-col gap-3">
+        <p className="text-gray-300">
+          {canAnalyze ? t.analysis.intro : t.analysis.unavailable}
+        </p>
+        <button onClick={onAnalyze} disabled={!canAnalyze} className={buttonClass}>{t.analysis.analyze}</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      {analyzing && (
+        <div className="flex flex-col gap-2">
+          <div className="h-3 bg-gray-900/70 rounded-full overflow-hidden">
+            <div className="h-full bg-yellow-500 transition-all duration-300" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+          </div>
+          <div className="flex items-center justify-between text-sm text-gray-300">
+            <span>{t.analysis.progress(progress.done, progress.total)}</span>
+            <button onClick={onCancel} className="px-3 py-1 bg-indigo-700 hover:bg-indigo-600 rounded-lg font-semibold">{t.analysis.cancel}</button>
+          </div>
+        </div>
+      )}
+
+      {summary && (
+        <div className="grid grid-cols-2 gap-3">
+          {(['w', 'b'] as Color[]).map((color) => (
+            <div key={color} className="bg-gray-900/70 rounded-xl border border-purple-600/40 p-3 text-left">
+              <p className="font-semibold">{playerNames[color]} <span className="text-gray-400">({t.colors[color]})</span></p>
+              <p className="text-3xl font-extrabold text-yellow-300">
+                {summary[color].accuracy === null ? '—' : `${summary[color].accuracy.toFixed(1)}%`}
+              </p>
+              <p className="text-xs text-gray-400 mb-1">{t.analysis.accuracy}</p>
+              {REPORTED.map((classification) => (
+                <p key={classification} className={`text-sm ${MOVE_CLASS_COLORS[classification]}`}>
+                  {t.moveClasses[classification]}: {summary[color].counts[classification]}
+                </p>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {errors.length > 0 ? (
+        <ul className="max-h-48 overflow-y-auto flex flex-col gap-1 text-left">
+          {errors.map((review) => (
+            <li key={review.ply}>
+              <button
+                onClick={() => onSelectPly(review.ply - 1)}
+                className="w-full px-3 py-1.5 rounded-lg hover:bg-indigo-800/80 text-left"
+                title={t.analysis.showPosition}
+              >
+                <span className="text-gray-400">{review.moveNumber}.{review.color === 'b' ? '..' : ''} </span>
+                <span className="font-mono">{review.san}{MOVE_CLASS_SYMBOLS[review.classification]}</span>
+                <span className={`ml-2 ${MOVE_CLASS_COLORS[review.classification]}`}>{t.moveClasses[review.classification]}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : !analyzing && <p className="text-green-300">{t.analysis.clean}</p>}
+    </div>
+  );
+}
+
+export default AnalysisPanel;
@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import type { Color } from 'chess.js';
+import { formatClock, timeLeft, type ClockState } from '../clock/chessClock';
+import { useMessages } from '../i18n/i18n';
+
+interface ClockPanelProps {
+  // Lado que se ve arriba del tablero (su reloj va arriba)
+  top: Color;
+  clock: ClockState;
+  flagged: Color | null;
+  // Lado que ya ha movido y debe pulsar su reloj para confirmar
+  awaitingPress: Color | null;
+  controlName: string;
+  onPress: () => void;
+}
+
+const LOW_TIME_MS = 20_000;
+const TICK_MS = 100;
+
+function ClockPanel({ top, clock, flagged, awaitingPress, controlName, onPress }: ClockPanelProps) {
+  const t = useMessages();
+  const bottom: Color = top === 'w' ? 'b' : 'w';
+
+  // El reloj en marcha se repinta cada décima aquí, sin volver a renderizar la app entera
+  const [now, setNow] = useState(() => performance.now());
+  useEffect(() => {
+    if (!clock.running) return;
+    const interval = setInterval(() => setNow(performance.now()), TICK_MS);
+    return () => clearInterval(interval);
+  }, [clock]);
+
+  const renderClock = (color: Color) => {
+    const active = clock.running === color;
+    const time = timeLeft(clock, color, now);
+    const low = time < LOW_TIME_MS;
+    return (
+      <button
+        onClick={onPress}
+        disabled={awaitingPress !== color}
+        title={awaitingPress === color ? t.clock.press : undefined}
+        className={`w-full py-4 rounded-2xl border-4 font-mono font-extrabold text-3xl shadow-xl transition-all duration-300 ${
+          flagged === color ? 'bg-red-900/80 border-red-500 text-red-200' :
+            active ? (low ? 'bg-red-700/80 border-red-400 text-white animate-pulse' : 'bg-yellow-500 border-yellow-300 text-black') :
+              'bg-gray-900/80 border-gray-700 text-gray-300'
+        } ${awaitingPress === color ? 'cursor-pointer ring-4 ring-green-400' : ''}`}
+      >
+        <span className="block text-xs font-sans font-semibold uppercase opacity-80">{t.colors[color]}</span>
+        {flagged === color ? '0.0' : formatClock(time)}
+      </button>
+    );
+  };
+
+  return (
+    <div className="flex flex-col justify-between gap-4 h-full">
+      {renderClock(top)}
+      <div className="text-center text-sm text-gray-300">
+        <p className="font-semibold text-yellow-300">{controlName}</p>
+        {awaitingPress && <p className="mt-1 text-green-300">{t.clock.pressToConfirm}</p>}
+      </div>
+      {renderClock(bottom)}
+    </div>
+  );
+}
+
+export default ClockPanel;
@@ -0,0 +1,34 @@
+import type { Color } from 'chess.js';
+import { formatEval, winPercent, type PositionEval } from '../engine/gameAnalysis';
+import { useMessages } from '../i18n/i18n';
+
+interface EvalBarProps {
+  evaluation: PositionEval | null; // null mientras no se ha valorado la posición
+  // Lado que se ve abajo del tablero (su parte de la barra va abajo)
+  bottom: Color;
+}
+
+function EvalBar({ evaluation, bottom }: EvalBarProps) {
+  const t = useMessages();
+  const white = evaluation ? winPercent(evaluation.cp) : 50;
+  const bottomShare = bottom === 'w' ? white : 100 - white;
+
+  return (
+    <div className="relative w-8 h-full rounded-lg overflow-hidden border-2 border-gray-700 shadow-xl" title={t.evalBar.title}>
+      <div className={`absolute inset-0 ${bottom === 'w' ? 'bg-gray-900' : 'bg-gray-100'}`} />
+      <div
+        className={`absolute inset-x-0 bottom-0 transition-all duration-500 ${bottom === 'w' ? 'bg-gray-100' : 'bg-gray-900'}`}
+        style={{ height: `${bottomShare}%` }}
+      />
+      <span
+        className={`absolute inset-x-0 text-center text-[10px] font-bold ${white >= 50 ? 'text-gray-900' : 'text-gray-100'} ${
+          (white >= 50) === (bottom === 'w') ? 'bottom-1' : 'top-1'
+        }`}
+      >
+        {evaluation ? formatEval(evaluation) : '…'}
+      </span>
+    </div>
+  );
+}
+
+export default EvalBar;
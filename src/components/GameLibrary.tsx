@@ -0,0 +1,47 @@
+import { useMessages } from '../i18n/i18n';
+import type { Messages } from '../i18n/messages';
+import type { SavedGame } from '../storage/gameStore';
+
+interface GameLibraryProps {
+  games: SavedGame[];
+  currentId: string;
+  onOpen: (game: SavedGame) => void;
+  onReplay: (game: SavedGame) => void;
+  onDelete: (game: SavedGame) => void;
+  onExport: (game: SavedGame) => void;
+}
+
+function describe(game: SavedGame, t: Messages): string {
+  return t.library.describe(game.mode, game.playerColor, Math.ceil(game.moves.length / 2), game.result);
+}
+
+function GameLibrary({ games, currentId, onOpen, onReplay, onDelete, onExport }: GameLibraryProps) {
+  const t = useMessages();
+  const buttonClass = 'px-3 py-1.5 bg-indigo-700 hover:bg-indigo-600 disabled:opacity-40 rounded-lg text-sm font-semibold transition-all duration-300';
+
+  if (games.length === 0) {
+    return <p className="text-gray-400 text-center">{t.library.empty}</p>;
+  }
+
+  return (
+    <ul className="flex flex-col gap-2 max-h-80 overflow-y-auto">
+      {games.map((game) => (
+        <li
+          key={game.id}
+          className={`flex flex-wrap items-center gap-3 p-3 rounded-xl border ${game.id === currentId ? 'border-yellow-500 bg-yellow-500/10' : 'border-purple-600/40 bg-gray-900/70'}`}
+        >
+          <div className="flex-1 min-w-48 text-left">
+            <p className="font-semibold">{new Date(game.updatedAt).toLocaleString()}</p>
+            <p className="text-sm text-gray-300">{describe(game, t)}</p>
+          </div>
+          <button onClick={() => onOpen(game)} disabled={game.id === currentId} className={buttonClass}>{t.library.open}</button>
+          <button onClick={() => onReplay(game)} disabled={game.moves.length === 0} className={buttonClass}>{t.library.replay}</button>
+          <button onClick={() => onExport(game)} className={buttonClass}>{t.library.export}</button>
+          <button onClick={() => onDelete(game)} className={`${buttonClass} bg-red-800 hover:bg-red-700`}>{t.library.delete}</button>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default GameLibrary;
@@ -0,0 +1,41 @@
+import {
+  COMMAND_GESTURES, GESTURE_COMMANDS, type CommandGesture, type GestureBindings, type GestureCommand,
+} from '../gestures/commandGestures';
+import { useMessages } from '../i18n/i18n';
+
+interface GestureBindingsPanelProps {
+  bindings: GestureBindings;
+  onChange: (gesture: CommandGesture, command: GestureCommand) => void;
+  // Dos jugadores repartidos por lateralidad: nadie tiene las dos manos en su lado
+  twoPalmsUnavailable?: boolean;
+}
+
+// Qué orden dispara cada gesto; se confirma manteniéndolo hasta completar el anillo del cursor
+function GestureBindingsPanel({ bindings, onChange, twoPalmsUnavailable = false }: GestureBindingsPanelProps) {
+  const t = useMessages();
+  return (
+    <details className="mt-3 bg-gray-900/70 rounded-xl border border-purple-600/40 p-3 text-left">
+      <summary className="cursor-pointer font-semibold text-yellow-300">{t.bindings.title}</summary>
+      <p className="text-sm text-gray-400 mt-2 mb-3">{t.bindings.help}</p>
+      {twoPalmsUnavailable && <p className="text-sm text-amber-300 mb-3">{t.bindings.twoPalmsUnavailable}</p>}
+      <div className="flex flex-col gap-2">
+        {COMMAND_GESTURES.map((gesture) => (
+          <label key={gesture} className="flex items-center gap-3 text-sm">
+            <span className="flex-1">{t.gestures[gesture]}</span>
+            <select
+              value={bindings[gesture]}
+              onChange={(e) => onChange(gesture, e.target.value as GestureCommand)}
+              className="w-44 p-2 bg-indigo-800/80 border border-yellow-500/70 rounded-lg text-white"
+            >
+              {GESTURE_COMMANDS.map((command) => (
+                <option key={command} value={command}>{t.commands[command]}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+    </details>
+  );
+}
+
+export default GestureBindingsPanel;
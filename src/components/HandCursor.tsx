@@ -0,0 +1,142 @@
+import type { Ref } from 'react';
+import type { Color, Square } from 'chess.js';
+import { useMessages } from '../i18n/i18n';
+
+interface HandCursorProps {
+  // La posición la fija quien lo usa en el `transform` del elemento, sin pasar por React
+  ref?: Ref<HTMLDivElement>;
+  color: Color;
+  dragStartSquare: Square | null;
+  highlightedSquare: Square | null;
+  // En el modo de dos jugadores se indica de quién es cada cursor
+  showLabel: boolean;
+  // Gesto de orden que se está manteniendo: el anillo se completa al confirmarse. Su progreso
+  // (0-1) lo fija quien lo usa en el `strokeDashoffset` del anillo, como la posición
+  holdLabel: string | null;
+  ringRef?: Ref<SVGCircleElement>;
+}
+
+const RING_RADIUS = 28;
+
+// Colores del cursor cuando no arrastra, para distinguir a cada jugador
+const IDLE_STYLE: Record<Color, { fill: string; stroke: string }> = {
+  w: { fill: '#ffffff', stroke: '#3b82f6' },
+  b: { fill: '#1f2937', stroke: '#f97316' },
+};
+
+// Cursor de mano con feedback de arrastre
+function HandCursor({ ref, color, dragStartSquare, highlightedSquare, showLabel, holdLabel, ringRef }: HandCursorProps) {
+  const t = useMessages();
+  const isDragging = dragStartSquare !== null;
+  const idle = IDLE_STYLE[color];
+
+  return (
+    <div
+      ref={ref}
+      style={{
+        position: 'absolute',
+        left: 0,
+        top: 0,
+        width: '100%',
+        height: '100%',
+        transition: 'transform 0.04s ease-out',
+        willChange: 'transform',
+      }}
+    >
+      {/* Cursor estilo mano - cambia según estado */}
+      <svg width="44" height="44" viewBox="0 0 44 44" fill="none">
+        {/* Sombra */}
+        <path
+          d="M14 4 L14 30 L22 22 L26 34 L32 30 L26 18 L36 18 L14 4 Z"
+          fill="rgba(0,0,0,0.4)"
+          transform="translate(2, 2)"
+        />
+
+        {/* Mano */}
+        <path
+          d="M14 4 L14 30 L22 22 L26 34 L32 30 L26 18 L36 18 L14 4 Z"
+          fill={isDragging ? '#22c55e' : idle.fill}
+          stroke={isDragging ? '#16a34a' : idle.stroke}
+          strokeWidth="2"
+        />
+
+        {/* Indicador de pellizco cuando está arrastrando */}
+        {isDragging && (
+          <>
+            <circle cx="22" cy="10" r="5" fill="#22c55e" opacity="0.9">
+              <animate attributeName="r" values="5;7;5" dur="0.8s" repeatCount="indefinite" />
+            </circle>
+            <circle cx="22" cy="10" r="3" fill="#ffffff" />
+          </>
+        )}
+
+        {/* Indicador de apuntando cuando no está arrastrando */}
+        {!isDragging && (
+          <circle cx="36" cy="4" r="3" fill={idle.stroke} opacity="0.8">
+            <animate attributeName="opacity" values="0.8;0.4;0.8" dur="1.5s" repeatCount="indefinite" />
+          </circle>
+        )}
+      </svg>
+
+      {/* Anillo de progreso del gesto mantenido */}
+      {holdLabel && (
+        <>
+          <svg width="64" height="64" viewBox="0 0 64 64" className="absolute" style={{ left: -10, top: -10 }}>
+            <circle cx="32" cy="32" r={RING_RADIUS} fill="none" stroke="rgba(0,0,0,0.35)" strokeWidth="5" />
+            <circle
+              ref={ringRef}
+              cx="32"
+              cy="32"
+              r={RING_RADIUS}
+              fill="none"
+              stroke="#facc15"
+              strokeWidth="5"
+              strokeLinecap="round"
+              pathLength={1}
+              strokeDasharray={1}
+              strokeDashoffset={1}
+              transform="rotate(-90 32 32)"
+            />
+          </svg>
+          <div className="absolute left-14 top-2">
+            <div className="bg-gray-900/90 text-yellow-300 px-2 py-0.5 rounded-md text-xs font-bold whitespace-nowrap shadow-xl border border-yellow-500">
+              {holdLabel}
+            </div>
+          </div>
+        </>
+      )}
+
+      {showLabel && !isDragging && (
+        <div className="absolute top-10 left-1/2 transform -translate-x-1/2">
+          <div
+            className="px-2 py-0.5 rounded-md text-xs font-bold whitespace-nowrap shadow-xl border"
+            style={{ backgroundColor: idle.fill, borderColor: idle.stroke, color: idle.stroke }}
+          >
+            {t.colors[color]}
+          </div>
+        </div>
+      )}
+
+      {/* Flecha de movimiento cuando está arrastrando */}
+      {isDragging && highlightedSquare && dragStartSquare !== highlightedSquare && (
+        <div className="absolute -top-14 left-1/2 transform -translate-x-1/2">
+          <div className="bg-gradient-to-r from-green-500 to-emerald-600 text-white px-3 py-1.5 rounded-lg text-sm font-bold whitespace-nowrap shadow-2xl border border-green-400 animate-pulse">
+            {dragStartSquare} → {highlightedSquare}
+            <div className="absolute -bottom-1 left-1/2 transform -translate-x-1/2 w-0 h-0 border-l-4 border-r-4 border-t-4 border-l-transparent border-r-transparent border-t-emerald-600"></div>
+          </div>
+        </div>
+      )}
+
+      {/* Indicador de pieza agarrada */}
+      {isDragging && (
+        <div className="absolute -bottom-10 left-1/2 transform -translate-x-1/2">
+          <div className="bg-gradient-to-r from-emerald-600 to-green-700 text-white px-3 py-1.5 rounded-lg text-xs font-bold whitespace-nowrap shadow-xl border border-emerald-500">
+            {t.cursor.pieceHeld}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default HandCursor;
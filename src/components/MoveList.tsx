@@ -0,0 +1,76 @@
+import { useEffect, useRef } from 'react';
+import { MOVE_CLASS_COLORS, MOVE_CLASS_SYMBOLS, type MoveClass } from '../engine/gameAnalysis';
+import { useMessages } from '../i18n/i18n';
+
+interface MoveListProps {
+  moves: string[]; // SAN
+  // Número de jugadas aplicadas en la posición que se muestra (moves.length = actual)
+  ply: number;
+  // true si la partida empieza con las negras (FEN importada)
+  startsWithBlack: boolean;
+  firstMoveNumber: number;
+  onSelectPly: (ply: number) => void;
+  // Clasificación del análisis por jugada (índice = ply - 1), si se ha analizado
+  annotations?: (MoveClass | undefined)[];
+}
+
+function MoveList({ moves, ply, startsWithBlack, firstMoveNumber, onSelectPly, annotations }: MoveListProps) {
+  const t = useMessages();
+  const activeRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [ply]);
+
+  // Filas de [blancas, negras]; un hueco inicial si empiezan las negras
+  const cells: (string | null)[] = startsWithBlack ? [null, ...moves] : moves;
+  const rows: { number: number; cells: { san: string | null; ply: number }[] }[] = [];
+  for (let i = 0; i < cells.length; i += 2) {
+    rows.push({
+      number: firstMoveNumber + i / 2,
+      cells: [0, 1].map((offset) => {
+        const index = i + offset;
+        return { san: cells[index] ?? null, ply: index + (startsWithBlack ? 0 : 1) };
+      }),
+    });
+  }
+
+  const navButton = 'flex-1 py-2 bg-indigo-700 hover:bg-indigo-600 disabled:opacity-40 rounded-lg font-bold transition-all duration-300';
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="h-64 overflow-y-auto bg-gray-900/70 rounded-xl border border-purple-600/40 p-2 text-left">
+        {rows.length === 0 && <p className="text-gray-400 text-center mt-4">{t.moveList.empty}</p>}
+        {rows.map((row) => (
+          <div key={row.number} className="grid grid-cols-[3rem_1fr_1fr] gap-1 items-center">
+            <span className="text-gray-400 text-right pr-2">{row.number}.</span>
+            {row.cells.map(({ san, ply: cellPly }) => {
+              const annotation = annotations?.[cellPly - 1];
+              return san ? (
+                <button
+                  key={cellPly}
+                  ref={cellPly === ply ? activeRef : undefined}
+                  onClick={() => onSelectPly(cellPly)}
+                  className={`px-2 py-1 rounded-md text-left font-mono ${cellPly === ply ? 'bg-yellow-500 text-black font-bold' :
+                    `hover:bg-indigo-800/80 ${annotation ? MOVE_CLASS_COLORS[annotation] : ''}`}`}
+                >
+                  {san}{annotation && MOVE_CLASS_SYMBOLS[annotation]}
+                </button>
+              ) : (
+                <span key={cellPly} className="px-2 text-gray-500">{cellPly === 0 ? '…' : ''}</span>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <button onClick={() => onSelectPly(0)} disabled={ply === 0} className={navButton} title={t.moveList.first}>⏮</button>
+        <button onClick={() => onSelectPly(ply - 1)} disabled={ply === 0} className={navButton} title={t.moveList.previous}>◀</button>
+        <button onClick={() => onSelectPly(ply + 1)} disabled={ply === moves.length} className={navButton} title={t.moveList.next}>▶</button>
+        <button onClick={() => onSelectPly(moves.length)} disabled={ply === moves.length} className={navButton} title={t.moveList.current}>⏭</button>
+      </div>
+    </div>
+  );
+}
+
+export default MoveList;
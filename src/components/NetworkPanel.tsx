@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { useMessages } from '../i18n/i18n';
+import { defaultRelayUrl } from '../network/roomClient';
+
+export type DrawOffer = 'sent' | 'received' | null;
+
+interface NetworkPanelProps {
+  roomCode: string | null;
+  connecting: boolean;
+  opponentConnected: boolean;
+  drawOffer: DrawOffer;
+  gameOver: boolean;
+  onCreate: (url: string) => void;
+  onJoin: (url: string, code: string) => void;
+  onLeave: () => void;
+  onResign: () => void;
+  onOfferDraw: () => void;
+  onRespondDraw: (accept: boolean) => void;
+  onResync: () => void;
+}
+
+function NetworkPanel({
+  roomCode, connecting, opponentConnected, drawOffer, gameOver,
+  onCreate, onJoin, onLeave, onResign, onOfferDraw, onRespondDraw, onResync,
+}: NetworkPanelProps) {
+  const t = useMessages();
+  const [url, setUrl] = useState(defaultRelayUrl);
+  const [code, setCode] = useState('');
+
+  const buttonClass = 'flex-1 py-2 bg-indigo-700 hover:bg-indigo-600 disabled:opacity-40 rounded-lg font-semibold transition-all duration-300';
+  const inputClass = 'w-full p-3 bg-gray-900/70 border border-purple-600/40 rounded-xl text-white';
+
+  if (!roomCode) {
+    return (
+      <div className="flex flex-col gap-3">
+        <label className="text-sm text-gray-300 text-left">
+          {t.network.server}
+          <input value={url} onChange={(e) => setUrl(e.target.value)} className={`${inputClass} font-mono text-sm mt-1`} />
+        </label>
+        <button onClick={() => onCreate(url)} disabled={connecting || !url.trim()} className={buttonClass}>
+          {t.network.createRoom}
+        </button>
+        <div className="flex gap-2">
+          <input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder={t.network.roomCode}
+            className={`${inputClass} font-mono uppercase`}
+          />
+          <button onClick={() => onJoin(url, code)} disabled={connecting || !code.trim() || !url.trim()} className={buttonClass}>
+            {t.network.join}
+          </button>
+        </div>
+        {connecting && <p className="text-sm text-gray-300">{t.network.connecting}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      <p className="text-lg">
+        {t.network.room} <span className="font-mono font-bold text-yellow-300 tracking-widest">{roomCode}</span>
+      </p>
+      <p className={`text-sm ${opponentConnected ? 'text-green-300' : 'text-orange-300'}`}>
+        {opponentConnected ? t.network.opponentConnected : t.network.waitingForOpponent}
+      </p>
+      {drawOffer === 'received' && !gameOver && (
+        <div className="flex gap-2 items-center">
+          <span className="text-sm text-yellow-300 flex-1">{t.network.opponentOffersDraw}</span>
+          <button onClick={() => onRespondDraw(true)} className={buttonClass}>{t.network.accept}</button>
+          <button onClick={() => onRespondDraw(false)} className={buttonClass}>{t.network.decline}</button>
+        </div>
+      )}
+      <div className="flex gap-2">
+        <button onClick={onOfferDraw} disabled={gameOver || !opponentConnected || drawOffer !== null} className={buttonClass}>
+          {drawOffer === 'sent' ? t.network.drawOffered : t.network.offerDraw}
+        </button>
+        <button onClick={onResign} disabled={gameOver} className={buttonClass}>{t.network.resign}</button>
+      </div>
+      <div className="flex gap-2">
+        <button onClick={onResync} className={buttonClass}>{t.network.resync}</button>
+        <button onClick={onLeave} className={buttonClass}>{t.network.leave}</button>
+      </div>
+    </div>
+  );
+}
+
+export default NetworkPanel;
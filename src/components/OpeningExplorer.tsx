@@ -0,0 +1,58 @@
+import { useMessages } from '../i18n/i18n';
+import type { BookMove, Opening } from '../openings/openingBook';
+
+interface OpeningExplorerProps {
+  opening: Opening | null;
+  moves: BookMove[]; // continuaciones de la posición que se muestra
+  // Motivo por el que no se puede jugar una continuación desde aquí, si lo hay
+  playLockReason: string | null;
+  onPlay: (move: BookMove) => void;
+}
+
+// Explorador del libro de aperturas: nombre de la apertura y continuaciones con sus líneas del libro
+function OpeningExplorer({ opening, moves, playLockReason, onPlay }: OpeningExplorerProps) {
+  const t = useMessages();
+  const most = Math.max(0, ...moves.map((move) => move.count));
+
+  return (
+    <div className="flex flex-col gap-3 text-left">
+      <p className="text-lg">
+        {opening
+          ? <><span className="font-mono text-yellow-300 font-bold">{opening.eco}</span> {t.openingName(opening)}</>
+          : <span className="text-gray-400">{t.explorer.unnamed}</span>}
+      </p>
+      {moves.length === 0 ? (
+        <p className="text-gray-400">{t.explorer.outOfBook}</p>
+      ) : (
+        <div className="flex flex-col gap-1">
+          <div className="grid grid-cols-[4rem_1fr_7rem] gap-3 px-2 text-xs uppercase tracking-wide text-gray-400">
+            <span className="text-left">{t.explorer.move}</span>
+            <span />
+            <span className="text-right">{t.explorer.bookLines}</span>
+          </div>
+          {moves.map((move) => {
+            const share = Math.round(100 * move.count / most);
+            return (
+              <button
+                key={move.san}
+                onClick={() => onPlay(move)}
+                disabled={playLockReason !== null}
+                title={playLockReason ?? t.explorer.play(move.san)}
+                className="grid grid-cols-[4rem_1fr_7rem] gap-3 items-center px-2 py-1 rounded-md hover:bg-indigo-800/80 disabled:hover:bg-transparent disabled:cursor-default"
+              >
+                <span className="font-mono font-bold text-left">{move.san}</span>
+                <span className="h-3 bg-gray-900/70 rounded-full overflow-hidden">
+                  <span className="block h-full bg-yellow-400/80" style={{ width: `${share}%` }} />
+                </span>
+                <span className="text-sm text-gray-300 text-right">{move.count}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+      <p className="text-sm text-gray-400">{t.explorer.bookLinesHelp}</p>
+    </div>
+  );
+}
+
+export default OpeningExplorer;
@@ -0,0 +1,53 @@
+import { useState } from 'react';
+import { useMessages } from '../i18n/i18n';
+
+interface PgnPanelProps {
+  fen: string;
+  onExportPgn: () => void;
+  // Devuelve un mensaje de error, o null si se cargó bien
+  onImport: (text: string) => string | null;
+}
+
+function PgnPanel({ fen, onExportPgn, onImport }: PgnPanelProps) {
+  const t = useMessages();
+  const [text, setText] = useState('');
+  const [feedback, setFeedback] = useState<string | null>(null);
+
+  const handleImport = () => {
+    const error = onImport(text);
+    setFeedback(error ?? t.pgn.loaded);
+    if (!error) setText('');
+  };
+
+  const copyFen = async () => {
+    try {
+      await navigator.clipboard.writeText(fen);
+      setFeedback(t.pgn.fenCopied);
+    } catch {
+      setText(fen);
+      setFeedback(t.pgn.copyFailed);
+    }
+  };
+
+  const buttonClass = 'flex-1 py-2 bg-indigo-700 hover:bg-indigo-600 disabled:opacity-40 rounded-lg font-semibold transition-all duration-300';
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex gap-2">
+        <button onClick={onExportPgn} className={buttonClass}>{t.pgn.exportPgn}</button>
+        <button onClick={copyFen} className={buttonClass}>{t.pgn.copyFen}</button>
+      </div>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder={t.pgn.placeholder}
+        rows={5}
+        className="w-full p-3 bg-gray-900/70 border border-purple-600/40 rounded-xl text-white font-mono text-sm resize-none"
+      />
+      <button onClick={handleImport} disabled={!text.trim()} className={buttonClass}>{t.pgn.load}</button>
+      {feedback && <p className="text-sm text-gray-300">{feedback}</p>}
+    </div>
+  );
+}
+
+export default PgnPanel;
@@ -0,0 +1,49 @@
+import type { RefObject } from 'react';
+import type { Color, PieceSymbol } from 'chess.js';
+import { defaultPieces } from 'react-chessboard';
+import { PROMOTION_PIECES } from '../board/moves';
+import { useMessages } from '../i18n/i18n';
+
+interface PromotionPickerProps {
+  color: Color;
+  // Opción bajo el cursor de la mano (se resalta igual que las casillas)
+  hovered: PieceSymbol | null;
+  // Botones de cada pieza, para que el bucle de gestos sepa cuál está debajo del cursor
+  choiceRefs: RefObject<Partial<Record<PieceSymbol, HTMLButtonElement | null>>>;
+  onSelect: (piece: PieceSymbol) => void;
+  onCancel: () => void;
+}
+
+function PromotionPicker({ color, hovered, choiceRefs, onSelect, onCancel }: PromotionPickerProps) {
+  const t = useMessages();
+  return (
+    <div className="absolute inset-0 z-40 flex flex-col items-center justify-center bg-black/60 rounded-lg">
+      <p className="text-2xl font-bold text-yellow-300 mb-4 drop-shadow-md">{t.promotion.title}</p>
+      <div className="flex gap-3">
+        {PROMOTION_PIECES.map((piece) => (
+          <button
+            key={piece}
+            ref={(el) => { choiceRefs.current[piece] = el; }}
+            onClick={() => onSelect(piece)}
+            title={t.pieces[piece]}
+            className="w-24 h-24 p-2 bg-indigo-800/90 border-2 border-yellow-500/70 rounded-xl hover:scale-105 transition-all duration-200"
+            style={hovered === piece ? {
+              backgroundColor: 'rgba(255, 215, 0, 0.4)',
+              boxShadow: 'inset 0 0 15px rgba(255, 215, 0, 0.5)',
+            } : undefined}
+          >
+            {defaultPieces[`${color}${piece.toUpperCase()}`]()}
+          </button>
+        ))}
+      </div>
+      <button
+        onClick={onCancel}
+        className="mt-4 px-6 py-2 bg-gray-800/80 hover:bg-gray-700 rounded-xl text-gray-200 font-semibold transition-all duration-300"
+      >
+        {t.promotion.cancel}
+      </button>
+    </div>
+  );
+}
+
+export default PromotionPicker;
@@ -0,0 +1,124 @@
+import { useMessages } from '../i18n/i18n';
+import { puzzleKey, type PuzzleProgress } from '../puzzles/puzzleProgress';
+import type { PuzzleSet } from '../puzzles/puzzles';
+
+export type PuzzleStatus = 'solving' | 'failed' | 'solved';
+
+interface PuzzlePanelProps {
+  set: PuzzleSet | null;
+  index: number;
+  status: PuzzleStatus;
+  progress: PuzzleProgress;
+  onLoad: (file: File) => void;
+  onNext: () => void;
+  onRetry: () => void;
+  onShowSolution: () => void;
+  onExit: () => void;
+  onClearProgress: () => void;
+}
+
+// Temas con más intentos que se muestran
+const MAX_THEMES = 12;
+
+// Entrenamiento con problemas de táctica: colección cargada, problema actual y estadísticas
+function PuzzlePanel({ set, index, status, progress, onLoad, onNext, onRetry, onShowSolution, onExit, onClearProgress }: PuzzlePanelProps) {
+  const t = useMessages();
+  const buttonClass = 'px-3 py-2 bg-indigo-700 hover:bg-indigo-600 disabled:opacity-40 rounded-lg text-sm font-semibold transition-all duration-300';
+  const puzzle = set?.puzzles[index];
+  const solvedInSet = set ? set.puzzles.filter((p) => progress.results[puzzleKey(set, p)]).length : 0;
+  const themes = Object.entries(progress.themes)
+    .sort(([, a], [, b]) => b.attempts - a.attempts)
+    .slice(0, MAX_THEMES);
+
+  return (
+    <div className="flex flex-col gap-4 text-left">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className={`${buttonClass} cursor-pointer`}>
+          {t.puzzles.load}
+          <input
+            type="file"
+            accept=".epd,.csv,.txt,text/csv,text/plain"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onLoad(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        {set && <button onClick={onExit} className={`${buttonClass} bg-gray-800/80 hover:bg-gray-700`}>{t.puzzles.exit}</button>}
+        <p className="text-sm text-gray-400">{t.puzzles.formats}</p>
+      </div>
+
+      {set && puzzle && (
+        <div className="bg-gray-900/70 p-4 rounded-xl border border-purple-600/40">
+          <p className="font-semibold text-lg">
+            {t.puzzles.position(set.name, index + 1, set.puzzles.length)}
+            <span className="text-sm text-gray-400"> ({puzzle.id}{puzzle.rating ? `, ${puzzle.rating}` : ''})</span>
+          </p>
+          <p className="text-gray-300">{t.puzzles.toMove(puzzle.color)}</p>
+          {puzzle.themes.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-2">
+              {puzzle.themes.map((theme) => (
+                <span key={theme} className="px-2 py-0.5 bg-purple-800/70 rounded-md text-xs">{theme}</span>
+              ))}
+            </div>
+          )}
+          <p className={`mt-3 font-semibold ${status === 'solved' ? 'text-green-300' : status === 'failed' ? 'text-red-300' : 'text-yellow-300'}`}>
+            {t.puzzles.status[status]}
+          </p>
+          <div className="flex flex-wrap gap-2 mt-3">
+            <button onClick={onShowSolution} disabled={status === 'solved'} className={buttonClass}>{t.puzzles.showMove}</button>
+            <button onClick={onRetry} className={buttonClass}>{t.puzzles.retry}</button>
+            <button onClick={onNext} disabled={index + 1 >= set.puzzles.length} className={buttonClass}>{t.puzzles.next}</button>
+          </div>
+          {set.skipped > 0 && (
+            <p className="text-sm text-gray-400 mt-2">{t.puzzles.skipped(set.skipped)}</p>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-3 text-center">
+        <div className="bg-gray-900/70 p-3 rounded-xl">
+          <p className="text-2xl font-bold">{set ? `${solvedInSet}/${set.puzzles.length}` : '–'}</p>
+          <p className="text-sm text-gray-400">{t.puzzles.solvedFirstTry}</p>
+        </div>
+        <div className="bg-gray-900/70 p-3 rounded-xl">
+          <p className="text-2xl font-bold">{progress.streak}</p>
+          <p className="text-sm text-gray-400">{t.puzzles.streak}</p>
+        </div>
+        <div className="bg-gray-900/70 p-3 rounded-xl">
+          <p className="text-2xl font-bold">{progress.bestStreak}</p>
+          <p className="text-sm text-gray-400">{t.puzzles.bestStreak}</p>
+        </div>
+      </div>
+
+      {themes.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-400">
+              <th className="text-left font-normal">{t.puzzles.theme}</th>
+              <th className="text-right font-normal">{t.puzzles.attempts}</th>
+              <th className="text-right font-normal">{t.puzzles.successRate}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {themes.map(([theme, stats]) => (
+              <tr key={theme} className="border-t border-purple-600/30">
+                <td className="py-1">{theme}</td>
+                <td className="py-1 text-right">{stats.attempts}</td>
+                <td className="py-1 text-right">{Math.round(100 * stats.solved / stats.attempts)}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {Object.keys(progress.results).length > 0 && (
+        <button onClick={onClearProgress} className={`${buttonClass} self-start bg-red-800 hover:bg-red-700`}>{t.puzzles.clearProgress}</button>
+      )}
+    </div>
+  );
+}
+
+export default PuzzlePanel;
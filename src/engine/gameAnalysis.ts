@@ -0,0 +1,162 @@
+import { Chess, type Color, type Move } from 'chess.js';
+import type { EngineMove, SearchSettings, StockfishEngine } from './stockfish';
+
+// Fuerza completa; el tiempo por posición manda sobre la profundidad en partidas largas
+export const ANALYSIS_SETTINGS: SearchSettings = { skillLevel: 20, depth: 14, movetime: 1500 };
+// Jugada sugerida durante la partida: a plena fuerza pero sin hacer esperar
+export const HINT_SETTINGS: SearchSettings = { skillLevel: 20, depth: 12, movetime: 800 };
+
+// Valoración de una posición desde el punto de vista de las blancas
+export interface PositionEval {
+  cp: number; // los mates se cuentan como ±MATE_CP
+  mate: number | null; // jugadas hasta el mate (negativo = ganan las negras); 0 = ya es mate
+  bestMove: EngineMove | null;
+}
+
+export type MoveClass = 'best' | 'good' | 'inaccuracy' | 'mistake' | 'blunder';
+
+// Signo de anotación PGN
+export const MOVE_CLASS_SYMBOLS: Record<MoveClass, string> = {
+  best: '',
+  good: '',
+  inaccuracy: '?!',
+  mistake: '?',
+  blunder: '??',
+};
+
+// Clases de Tailwind para pintar cada tipo de jugada
+export const MOVE_CLASS_COLORS: Record<MoveClass, string> = {
+  best: 'text-green-300',
+  good: 'text-gray-200',
+  inaccuracy: 'text-yellow-300',
+  mistake: 'text-orange-400',
+  blunder: 'text-red-400',
+};
+
+export interface MoveReview {
+  ply: number; // jugadas aplicadas tras este movimiento (1 = la primera)
+  moveNumber: number;
+  san: string;
+  color: Color;
+  classification: MoveClass;
+  winLoss: number; // puntos de probabilidad de ganar (0-100) que ha costado
+  accuracy: number; // 0-100
+}
+
+export interface SideSummary {
+  accuracy: number | null; // null si el lado no ha movido
+  counts: Record<MoveClass, number>;
+}
+
+const MATE_CP = 10_000;
+
+// Umbrales de pérdida de probabilidad de ganar, en puntos sobre 100
+const INACCURACY_LOSS = 5;
+const MISTAKE_LOSS = 10;
+const BLUNDER_LOSS = 15;
+const GOOD_LOSS = 2;
+
+// ────────────────────────────────────────────────
+// Análisis con el motor
+// ────────────────────────────────────────────────
+
+// Valora cada posición de la partida de una en una, avisando con las valoraciones hechas hasta el momento
+export async function analyzePositions(
+  engine: StockfishEngine,
+  fens: string[],
+  onProgress: (evals: PositionEval[]) => void,
+  signal?: AbortSignal,
+): Promise<PositionEval[]> {
+  const evals: PositionEval[] = [];
+  for (const fen of fens) {
+    evals.push(terminalEval(fen) ?? await evaluate(engine, fen, signal));
+    onProgress([...evals]);
+  }
+  return evals;
+}
+
+async function evaluate(engine: StockfishEngine, fen: string, signal?: AbortSignal): Promise<PositionEval> {
+  const { score, bestMove } = await engine.analyze(fen, ANALYSIS_SETTINGS, signal);
+  // El motor puntúa para el lado que mueve
+  const sign = fen.split(' ')[1] === 'w' ? 1 : -1;
+  if (score.mate !== null) {
+    const mate = sign * score.mate;
+    return { cp: mate >= 0 ? MATE_CP : -MATE_CP, mate, bestMove };
+  }
+  return { cp: sign * (score.cp ?? 0), mate: null, bestMove };
+}
+
+// Mate y tablas no necesitan motor (y Stockfish no devuelve jugada en ellas)
+function terminalEval(fen: string): PositionEval | null {
+  const position = new Chess(fen);
+  if (position.isCheckmate()) {
+    return { cp: position.turn() === 'w' ? -MATE_CP : MATE_CP, mate: 0, bestMove: null };
+  }
+  if (position.isDraw() || position.isStalemate()) return { cp: 0, mate: null, bestMove: null };
+  return null;
+}
+
+// ────────────────────────────────────────────────
+// Clasificación y precisión
+// ────────────────────────────────────────────────
+
+// Probabilidad de ganar (0-100) de las blancas según la ventaja en centipeones
+export function winPercent(cp: number): number {
+  return 50 + 50 * (2 / (1 + Math.exp(-0.00368208 * cp)) - 1);
+}
+
+// "+1.3", "-0.4", "#3", "#-2"
+export function formatEval(evaluation: PositionEval): string {
+  if (evaluation.mate !== null) return evaluation.mate === 0 ? '#' : `#${evaluation.mate}`;
+  const pawns = evaluation.cp / 100;
+  return `${pawns > 0 ? '+' : ''}${pawns.toFixed(1)}`;
+}
+
+function classify(winLoss: number, playedBest: boolean): MoveClass {
+  if (playedBest) return 'best';
+  if (winLoss >= BLUNDER_LOSS) return 'blunder';
+  if (winLoss >= MISTAKE_LOSS) return 'mistake';
+  if (winLoss >= INACCURACY_LOSS) return 'inaccuracy';
+  return winLoss < GOOD_LOSS ? 'best' : 'good';
+}
+
+function sameMove(move: Move, engineMove: EngineMove | null): boolean {
+  return !!engineMove && move.from === engineMove.from && move.to === engineMove.to
+    && (move.promotion ?? undefined) === engineMove.promotion;
+}
+
+// Una revisión por jugada ya valorada: la jugada n necesita las posiciones n-1 y n
+export function reviewMoves(history: Move[], evals: PositionEval[]): MoveReview[] {
+  const reviews: MoveReview[] = [];
+  for (let ply = 1; ply < evals.length && ply <= history.length; ply++) {
+    const move = history[ply - 1];
+    const sign = move.color === 'w' ? 1 : -1;
+    const before = winPercent(sign * evals[ply - 1].cp);
+    const after = winPercent(sign * evals[ply].cp);
+    const winLoss = Math.max(0, before - after);
+    reviews.push({
+      ply,
+      moveNumber: Number(move.before.split(' ')[5]) || 1,
+      san: move.san,
+      color: move.color,
+      classification: classify(winLoss, sameMove(move, evals[ply - 1].bestMove)),
+      winLoss,
+      // Fórmula de precisión por jugada de Lichess
+      accuracy: Math.min(100, Math.max(0, 103.1668 * Math.exp(-0.04354 * winLoss) - 3.1669)),
+    });
+  }
+  return reviews;
+}
+
+export function summarize(reviews: MoveReview[]): Record<Color, SideSummary> {
+  const side = (color: Color): SideSummary => {
+    const own = reviews.filter((review) => review.color === color);
+    const counts: Record<MoveClass, number> = { best: 0, good: 0, inaccuracy: 0, mistake: 0, blunder: 0 };
+    own.forEach((review) => counts[review.classification]++);
+    return {
+      accuracy: own.length ? own.reduce((sum, review) => sum + review.accuracy, 0) / own.length : null,
+      counts,
+    };
+  };
+  return { w: side('w'), b: side('b') };
+}
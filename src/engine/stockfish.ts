@@ -0,0 +1,207 @@
+import type { PieceSymbol, Square } from 'chess.js';
+import stockfishScriptUrl from 'stockfish/src/stockfish-17.1-lite-single-03e3232.js?url';
+import stockfishWasmUrl from 'stockfish/src/stockfish-17.1-lite-single-03e3232.wasm?url';
+
+export type Difficulty = 'amateur' | 'media' | 'alta';
+
+export interface SearchSettings {
+  skillLevel: number; // 0-20 (opción UCI "Skill Level")
+  depth: number;
+  movetime: number; // ms
+}
+
+// Cada nivel limita a la vez la fuerza, la profundidad y el tiempo de reflexión
+export const DIFFICULTY_SETTINGS: Record<Difficulty, SearchSettings> = {
+  amateur: { skillLevel: 0, depth: 3, movetime: 400 },
+  media: { skillLevel: 8, depth: 10, movetime: 1000 },
+  alta: { skillLevel: 20, depth: 18, movetime: 2500 },
+};
+
+// Niveles en los que la IA puede abrir con jugadas del libro, para que las partidas no empiecen siempre igual
+export const BOOK_DIFFICULTIES: readonly Difficulty[] = ['amateur', 'media'];
+
+export interface EngineMove {
+  from: Square;
+  to: Square;
+  promotion?: PieceSymbol;
+}
+
+// Valoración desde el punto de vista del lado que mueve: centipeones o jugadas hasta el mate
+export interface EngineScore {
+  cp: number | null;
+  mate: number | null;
+}
+
+export interface EngineAnalysis {
+  score: EngineScore;
+  bestMove: EngineMove | null;
+}
+
+export class SearchCancelledError extends Error {
+  constructor() {
+    super('Búsqueda cancelada');
+    this.name = 'SearchCancelledError';
+  }
+}
+
+type LineListener = (line: string) => void;
+
+// Sin respuesta en este tiempo se da el motor por colgado: se cierra y la próxima orden lo vuelve a arrancar
+const START_TIMEOUT_MS = 30000; // incluye descargar y compilar el WASM
+const READY_TIMEOUT_MS = 10000;
+const SEARCH_MARGIN_MS = 10000; // sobre el movetime de la búsqueda
+
+// ────────────────────────────────────────────────
+// Adaptador UCI sobre Stockfish (WASM) en un Web Worker
+// ────────────────────────────────────────────────
+export class StockfishEngine {
+  private worker: Worker | null = null;
+  private ready: Promise<void> | null = null;
+  private listeners = new Set<LineListener>();
+  // Rechazo de cada respuesta que se está esperando, para no dejarlas colgadas si el motor falla
+  private waiting = new Set<(error: Error) => void>();
+  // Se resuelve cuando el motor ha terminado la última orden encolada
+  private idle: Promise<void> = Promise.resolve();
+
+  private start(): Promise<void> {
+    if (this.ready) return this.ready;
+
+    // El script de Stockfish lee la ruta del .wasm desde el hash de su URL
+    const worker = new Worker(`${stockfishScriptUrl}#${encodeURIComponent(stockfishWasmUrl)}`);
+    worker.onmessage = (event: MessageEvent<string>) => {
+      const line = String(event.data);
+      this.listeners.forEach((listener) => listener(line));
+    };
+    this.worker = worker;
+
+    this.ready = new Promise<void>((resolve, reject) => {
+      worker.onerror = (event) => {
+        event.preventDefault();
+        this.fail(new Error(`Error en Stockfish: ${event.message}`));
+      };
+      this.waitFor('uciok', START_TIMEOUT_MS)
+        .then(() => {
+          this.post('isready');
+          return this.waitFor('readyok', READY_TIMEOUT_MS);
+        })
+        .then(() => resolve(), reject);
+      this.post('uci');
+    });
+    return this.ready;
+  }
+
+  private post(command: string) {
+    this.worker?.postMessage(command);
+  }
+
+  private waitFor(prefix: string, timeoutMs: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const done = () => {
+        clearTimeout(timer);
+        this.listeners.delete(listener);
+        this.waiting.delete(abandon);
+      };
+      const listener: LineListener = (line) => {
+        if (!line.startsWith(prefix)) return;
+        done();
+        resolve(line);
+      };
+      const abandon = (error: Error) => {
+        done();
+        reject(error);
+      };
+      const timer = setTimeout(() => this.fail(new Error(`Stockfish no respondió a tiempo (${prefix})`)), timeoutMs);
+      this.listeners.add(listener);
+      this.waiting.add(abandon);
+    });
+  }
+
+  // El worker ha fallado o no responde: se descarta entero (la próxima orden arranca otro)
+  // y todo lo que esperaba una respuesta recibe el error
+  private fail(error: Error) {
+    const waiting = [...this.waiting];
+    this.worker?.terminate();
+    this.worker = null;
+    this.ready = null;
+    this.listeners.clear();
+    this.waiting.clear();
+    this.idle = Promise.resolve();
+    waiting.forEach((abandon) => abandon(error));
+  }
+
+  // Ejecuta las órdenes de una en una: una búsqueda nueva espera a que la
+  // anterior (aunque esté cancelada) haya devuelto su "bestmove"
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.idle.then(() => this.start()).then(task);
+    this.idle = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  newGame(): Promise<void> {
+    return this.exclusive(async () => {
+      this.post('ucinewgame');
+      this.post('isready');
+      await this.waitFor('readyok', READY_TIMEOUT_MS);
+    });
+  }
+
+  getBestMove(fen: string, settings: SearchSettings, signal?: AbortSignal): Promise<EngineMove | null> {
+    return this.analyze(fen, settings, signal).then((analysis) => analysis.bestMove);
+  }
+
+  // Mejor jugada y valoración de la última línea "info" que la trae
+  analyze(fen: string, settings: SearchSettings, signal?: AbortSignal): Promise<EngineAnalysis> {
+    return this.exclusive(async () => {
+      if (signal?.aborted) throw new SearchCancelledError();
+
+      this.post(`setoption name Skill Level value ${settings.skillLevel}`);
+      this.post(`position fen ${fen}`);
+
+      let score: EngineScore = { cp: 0, mate: null };
+      const onInfo: LineListener = (line) => {
+        score = parseScore(line) ?? score;
+      };
+      this.listeners.add(onInfo);
+
+      const result = this.waitFor('bestmove', settings.movetime + SEARCH_MARGIN_MS);
+      const onAbort = () => this.post('stop');
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.post(`go depth ${settings.depth} movetime ${settings.movetime}`);
+
+      let line: string;
+      try {
+        line = await result;
+      } finally {
+        this.listeners.delete(onInfo);
+        signal?.removeEventListener('abort', onAbort);
+      }
+      if (signal?.aborted) throw new SearchCancelledError();
+
+      return { score, bestMove: parseBestMove(line) };
+    });
+  }
+
+  // Lo que aún esperaba al motor termina como cancelado
+  terminate() {
+    this.fail(new SearchCancelledError());
+  }
+}
+
+// "bestmove e7e8q ponder ..." → { from: 'e7', to: 'e8', promotion: 'q' }
+function parseBestMove(line: string): EngineMove | null {
+  const uci = line.split(' ')[1];
+  if (!uci || uci === '(none)') return null;
+  return {
+    from: uci.slice(0, 2) as Square,
+    to: uci.slice(2, 4) as Square,
+    promotion: (uci[4] as PieceSymbol | undefined) || undefined,
+  };
+}
+
+// "info depth 12 ... score cp -35 ..." → { cp: -35, mate: null }. Las cotas (lowerbound/upperbound) no son exactas y se ignoran
+function parseScore(line: string): EngineScore | null {
+  const match = /^info .*\bscore (cp|mate) (-?\d+)( lowerbound| upperbound)?/.exec(line);
+  if (!match || match[3]) return null;
+  const value = Number(match[2]);
+  return match[1] === 'cp' ? { cp: value, mate: null } : { cp: null, mate: value };
+}
@@ -0,0 +1,153 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { classifyPose, wristOf } from './handPoses';
+
+// Gestos que disparan órdenes (además del pellizco, que mueve piezas)
+export type CommandGesture = 'open-palm' | 'thumbs-up' | 'victory' | 'swipe' | 'two-palms';
+
+export type GestureCommand = 'none' | 'cancel-drag' | 'confirm' | 'undo' | 'resign' | 'offer-draw' | 'new-game' | 'flip-board';
+
+export type GestureBindings = Record<CommandGesture, GestureCommand>;
+
+// En el orden en que se muestran; los nombres están en el catálogo de mensajes (i18n/messages.ts)
+export const COMMAND_GESTURES: CommandGesture[] = ['open-palm', 'thumbs-up', 'victory', 'swipe', 'two-palms'];
+
+export const GESTURE_COMMANDS: GestureCommand[] = [
+  'none', 'cancel-drag', 'confirm', 'undo', 'resign', 'offer-draw', 'new-game', 'flip-board',
+];
+
+export const DEFAULT_GESTURE_BINDINGS: GestureBindings = {
+  'open-palm': 'cancel-drag',
+  'thumbs-up': 'confirm',
+  victory: 'offer-draw',
+  swipe: 'undo',
+  'two-palms': 'resign',
+};
+
+// Gesto que se está manteniendo y cuánto falta para que cuente (0-1)
+export interface CommandHold {
+  gesture: CommandGesture;
+  progress: number;
+}
+
+export interface CommandUpdate {
+  hold: CommandHold | null;
+  fired: CommandGesture | null;
+}
+
+export interface CommandRecognizerOptions {
+  holdMs: number; // tiempo que hay que mantener el gesto para confirmarlo
+  swipeDistance: number; // desplazamiento horizontal de la muñeca (coordenadas normalizadas)
+  swipeWindowMs: number; // en cuánto tiempo como máximo
+}
+
+export const DEFAULT_COMMAND_OPTIONS: CommandRecognizerOptions = {
+  holdMs: 900,
+  swipeDistance: 0.2,
+  swipeWindowMs: 400,
+};
+
+const STORAGE_KEY = 'ajedrezAR.gestureBindings';
+
+// Abrir la palma durante un arrastre no lo suelta si la palma está asignada a cancelarlo
+export function keepsGrabOnOpenPalm(bindings: GestureBindings): boolean {
+  return bindings['open-palm'] === 'cancel-drag';
+}
+
+// ────────────────────────────────────────────────
+// Reconocedor de gestos de orden de un lado: postura o movimiento → mantener → disparar
+// ────────────────────────────────────────────────
+export class CommandRecognizer {
+  private options: CommandRecognizerOptions;
+  private candidate: CommandGesture | null = null;
+  private since = 0;
+  // Tras disparar, el gesto tiene que deshacerse antes de poder repetirse
+  private latched = false;
+  // Barrido hecho, pendiente de confirmar manteniendo la palma
+  private swipeArmed = false;
+  private trail: { t: number; x: number; y: number }[] = [];
+
+  constructor(options: Partial<CommandRecognizerOptions> = {}) {
+    this.options = { ...DEFAULT_COMMAND_OPTIONS, ...options };
+  }
+
+  // `hands` son las manos de este lado; `pinching` indica si la primera está pellizcando (o arrastrando).
+  // Solo se reconocen los gestos con una orden asignada.
+  update(hands: NormalizedLandmark[][], timestamp: number, pinching: boolean, bindings: GestureBindings): CommandUpdate {
+    const [first, second] = hands;
+    if (!first) {
+      this.reset();
+      return { hold: null, fired: null };
+    }
+    const enabled = (gesture: CommandGesture) => bindings[gesture] !== 'none';
+    const pose = classifyPose(first);
+
+    // Dos palmas a la vez: las dos manos de este lado (contra la IA o, entre dos, repartiendo por mitades)
+    let gesture: CommandGesture | null = null;
+    if (second && enabled('two-palms') && pose === 'open-palm' && classifyPose(second) === 'open-palm') {
+      gesture = 'two-palms';
+    } else if (enabled('swipe') && !pinching && pose === 'open-palm' && (this.swipeArmed || this.detectSwipe(first, timestamp))) {
+      // El barrido se confirma manteniendo después la palma abierta: pasar la mano por delante no basta
+      this.swipeArmed = true;
+      gesture = 'swipe';
+    } else if (pose && enabled(pose) && (!pinching || pose === 'open-palm')) {
+      gesture = pose;
+    }
+    if (gesture !== 'swipe') this.swipeArmed = false;
+    if (pose !== 'open-palm' || pinching) this.trail = [];
+
+    if (gesture !== this.candidate) {
+      this.candidate = gesture;
+      this.since = timestamp;
+      this.latched = false;
+    }
+    if (!gesture || this.latched) return { hold: null, fired: null };
+
+    const progress = Math.min(1, (timestamp - this.since) / this.options.holdMs);
+    if (progress < 1) return { hold: { gesture, progress }, fired: null };
+
+    this.latched = true;
+    this.swipeArmed = false;
+    this.trail = [];
+    return { hold: null, fired: gesture };
+  }
+
+  private detectSwipe(landmarks: NormalizedLandmark[], timestamp: number): boolean {
+    const wrist = wristOf(landmarks);
+    this.trail.push({ t: timestamp, ...wrist });
+    this.trail = this.trail.filter((point) => timestamp - point.t <= this.options.swipeWindowMs);
+    const start = this.trail[0];
+    const dx = Math.abs(wrist.x - start.x);
+    const dy = Math.abs(wrist.y - start.y);
+    return dx > this.options.swipeDistance && dy < dx / 2;
+  }
+
+  reset() {
+    this.candidate = null;
+    this.latched = false;
+    this.swipeArmed = false;
+    this.trail = [];
+  }
+}
+
+// ────────────────────────────────────────────────
+// Persistencia de las asignaciones
+// ────────────────────────────────────────────────
+export function loadGestureBindings(): GestureBindings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_GESTURE_BINDINGS;
+    const parsed = JSON.parse(raw) as Partial<GestureBindings>;
+    const bindings = { ...DEFAULT_GESTURE_BINDINGS };
+    (Object.keys(bindings) as CommandGesture[]).forEach((gesture) => {
+      const command = parsed[gesture];
+      if (command && GESTURE_COMMANDS.includes(command)) bindings[gesture] = command;
+    });
+    return bindings;
+  } catch {
+    return DEFAULT_GESTURE_BINDINGS;
+  }
+}
+
+export function saveGestureBindings(bindings: GestureBindings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+}
@@ -0,0 +1,56 @@
+import type { Chess, Color, PieceSymbol, Square } from 'chess.js';
+import type { GestureEvent } from './gestureEngine';
+
+// Qué significa un evento de gesto para el arrastre de piezas. Lo comparten la
+// partida en vivo y el reproductor de grabaciones, para que ambos decidan igual.
+export type DragOutcome =
+  | { type: 'grabbed'; square: Square }
+  | { type: 'grab-rejected'; square: Square; reason: 'empty' | 'opponent-piece' | 'not-your-turn' }
+  | { type: 'dragging'; from: Square; over: Square | null }
+  | { type: 'dropped'; from: Square; to: Square }
+  | { type: 'dropped-same-square'; from: Square }
+  | { type: 'dropped-off-board'; from: Square }
+  | { type: 'cancelled'; from: Square }
+  | { type: 'pointing'; square: Square | null; piece: PieceSymbol | null; movable: boolean }
+  | { type: 'lost' };
+
+export function interpretGesture(
+  event: GestureEvent,
+  game: Chess,
+  playerColor: Color,
+  dragStartSquare: Square | null,
+): DragOutcome | null {
+  switch (event.type) {
+    case 'lost':
+      return dragStartSquare ? { type: 'cancelled', from: dragStartSquare } : { type: 'lost' };
+
+    case 'grab': {
+      if (!event.square) return null;
+      const piece = game.get(event.square);
+      if (!piece) return { type: 'grab-rejected', square: event.square, reason: 'empty' };
+      if (piece.color !== playerColor) return { type: 'grab-rejected', square: event.square, reason: 'opponent-piece' };
+      if (game.turn() !== playerColor) return { type: 'grab-rejected', square: event.square, reason: 'not-your-turn' };
+      return { type: 'grabbed', square: event.square };
+    }
+
+    case 'move':
+      // Pellizco sobre una casilla sin pieza propia: no hay nada que arrastrar
+      return dragStartSquare ? { type: 'dragging', from: dragStartSquare, over: event.square } : null;
+
+    case 'release':
+      if (!dragStartSquare) return null;
+      if (!event.square) return { type: 'dropped-off-board', from: dragStartSquare };
+      if (event.square === dragStartSquare) return { type: 'dropped-same-square', from: dragStartSquare };
+      return { type: 'dropped', from: dragStartSquare, to: event.square };
+
+    case 'hover': {
+      const piece = event.square ? game.get(event.square) : undefined;
+      return {
+        type: 'pointing',
+        square: event.square,
+        piece: piece?.type ?? null,
+        movable: !!piece && piece.color === playerColor && game.turn() === playerColor,
+      };
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import type { Chess, Color, Square } from 'chess.js';
+import type { GestureEvent } from './gestureEngine';
+
+// Cómo se eligen casillas con la mano: pellizcando y arrastrando, o manteniendo el cursor quieto encima
+export type InputMode = 'pinch' | 'dwell';
+
+export const INPUT_MODES: InputMode[] = ['pinch', 'dwell'];
+
+export interface InputSettings {
+  mode: InputMode;
+  dwellMs: number;
+}
+
+export const DWELL_TIMES_MS = [600, 1000, 1500, 2000, 3000];
+
+export const DEFAULT_INPUT_SETTINGS: InputSettings = { mode: 'pinch', dwellMs: 1000 };
+
+const STORAGE_KEY = 'ajedrezAR.inputSettings';
+
+export interface DwellUpdate<T extends string> {
+  target: T | null;
+  progress: number; // 0-1
+  fired: T | null; // objetivo que acaba de completar su tiempo
+}
+
+// ────────────────────────────────────────────────
+// Selección por permanencia: dispara una vez cuando el objetivo no cambia durante dwellMs
+// ────────────────────────────────────────────────
+export class DwellSelector<T extends string = string> {
+  private target: T | null = null;
+  private since = 0;
+  // Tras disparar hay que salir del objetivo para volver a elegirlo
+  private fired = false;
+
+  update(target: T | null, timestamp: number, dwellMs: number): DwellUpdate<T> {
+    if (target !== this.target) {
+      this.target = target;
+      this.since = timestamp;
+      this.fired = false;
+    }
+    if (target === null || this.fired) return { target, progress: 0, fired: null };
+
+    const progress = Math.min(1, (timestamp - this.since) / dwellMs);
+    if (progress < 1) return { target, progress, fired: null };
+    this.fired = true;
+    return { target, progress: 1, fired: target };
+  }
+
+  reset() {
+    this.target = null;
+    this.fired = false;
+  }
+}
+
+// Lo que hay que saber de la partida para traducir la permanencia de un lado
+export interface DwellContext {
+  game: Chess;
+  side: Color;
+  selected: Square | null; // pieza ya elegida con una permanencia anterior
+  locked: boolean; // no se puede mover (revisando, sin sala, partida terminada...)
+  dwellMs: number;
+}
+
+export interface DwellGesture extends DwellUpdate<Square> {
+  event: GestureEvent | null; // evento de pellizco equivalente (null = nada que hacer)
+  reselect: boolean; // otra pieza propia sustituye a la elegida
+}
+
+// MODO PERMANENCIA - Traduce mantener el cursor en eventos de pellizco: la primera
+// permanencia agarra la pieza y la segunda la suelta en el destino. Lo comparten la
+// partida en vivo y el reproductor de grabaciones.
+export function dwellToPinch(
+  event: GestureEvent,
+  selector: DwellSelector,
+  timestamp: number,
+  { game, side, selected, locked, dwellMs }: DwellContext,
+): DwellGesture {
+  if (event.type === 'lost') {
+    // La selección se conserva: con temblores la mano se pierde a ratos
+    selector.reset();
+    return { target: null, progress: 0, fired: null, event: null, reselect: false };
+  }
+  const { square, point } = event;
+  const piece = square ? game.get(square) : undefined;
+  const ownPiece = !!piece && piece.color === side;
+  // Sin pieza elegida solo cuentan las propias; con pieza elegida, cualquier casilla
+  const target = locked || !square || (!selected && !ownPiece) ? null : square;
+  const { progress, fired } = selector.update(target, timestamp, dwellMs);
+  if (!fired) {
+    return { target, progress, fired: null, event: { type: selected ? 'move' : 'hover', square, point }, reselect: false };
+  }
+  // Otra pieza propia: cambiar la selección
+  const reselect = !!selected && ownPiece && square !== selected;
+  return { target, progress, fired: target, event: { type: selected && !reselect ? 'release' : 'grab', square, point }, reselect };
+}
+
+// ────────────────────────────────────────────────
+// Persistencia
+// ────────────────────────────────────────────────
+export function loadInputSettings(): InputSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_INPUT_SETTINGS;
+    const parsed = JSON.parse(raw) as Partial<InputSettings>;
+    return {
+      mode: parsed.mode && INPUT_MODES.includes(parsed.mode) ? parsed.mode : DEFAULT_INPUT_SETTINGS.mode,
+      dwellMs: typeof parsed.dwellMs === 'number' && parsed.dwellMs > 0 ? parsed.dwellMs : DEFAULT_INPUT_SETTINGS.dwellMs,
+    };
+  } catch {
+    return DEFAULT_INPUT_SETTINGS;
+  }
+}
+
+export function saveInputSettings(settings: InputSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,143 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { describe, expect, it } from 'vitest';
+import { GestureEngine } from './gestureEngine';
+
+// Mano de 21 landmarks con la palma de 0.2 de alto y el pellizco pedido (distancia pulgar–índice / palma)
+function hand(ratio: number, x = 0.5): NormalizedLandmark[] {
+  const landmarks = Array.from({ length: 21 }, () => ({ x, y: 0.5, z: 0, visibility: 1 }));
+  landmarks[0] = { x, y: 0.8, z: 0, visibility: 1 };
+  landmarks[9] = { x, y: 0.6, z: 0, visibility: 1 };
+  landmarks[4] = { x: x - ratio * 0.2, y: 0.4, z: 0, visibility: 1 };
+  landmarks[8] = { x, y: 0.4, z: 0, visibility: 1 };
+  return landmarks;
+}
+
+// Palma abierta: los cuatro dedos estirados y el pulgar separado de la base del índice
+function openPalm(x = 0.5): NormalizedLandmark[] {
+  const landmarks = hand(0.6, x);
+  [12, 16, 20].forEach((tip) => {
+    landmarks[tip] = { x, y: 0.4, z: 0, visibility: 1 };
+  });
+  return landmarks;
+}
+
+const squareAt = () => 'e4' as const;
+
+function types(engine: GestureEngine, ratios: number[]) {
+  return ratios.map((ratio, i) => engine.process([hand(ratio)], i * 33, squareAt)?.type);
+}
+
+describe('GestureEngine', () => {
+  describe('histéresis del pellizco', () => {
+    it('agarra por debajo de pinchEnter y suelta solo por encima de pinchExit', () => {
+      const engine = new GestureEngine();
+      expect(types(engine, [0.6, 0.4, 0.34, 0.4, 0.49, 0.51, 0.4])).toEqual([
+        'hover', 'hover', 'grab', 'move', 'move', 'release', 'hover',
+      ]);
+    });
+
+    it('no suelta justo en el umbral de salida', () => {
+      const engine = new GestureEngine();
+      expect(types(engine, [0.2, 0.5])).toEqual(['grab', 'move']);
+      expect(engine.isPinching).toBe(true);
+    });
+
+    it('respeta umbrales configurados', () => {
+      const engine = new GestureEngine({ pinchEnter: 0.2, pinchExit: 0.3 });
+      expect(types(engine, [0.25, 0.15, 0.28, 0.31])).toEqual(['hover', 'grab', 'move', 'release']);
+    });
+  });
+
+  describe('mano perdida', () => {
+    it("emite 'lost' una sola vez pasado lostTimeout sin mano", () => {
+      const engine = new GestureEngine({ lostTimeout: 1500 });
+      engine.process([hand(0.6)], 0, squareAt);
+      expect(engine.process([], 1000, squareAt)).toBeNull();
+      expect(engine.process([], 1500, squareAt)).toBeNull();
+      expect(engine.process([], 1501, squareAt)).toEqual({ type: 'lost' });
+      expect(engine.process([], 3200, squareAt)).toBeNull();
+    });
+
+    it('perder la mano termina el pellizco sin soltar', () => {
+      const engine = new GestureEngine({ lostTimeout: 500 });
+      engine.process([hand(0.2)], 0, squareAt);
+      expect(engine.isPinching).toBe(true);
+      expect(engine.process([], 600, squareAt)).toEqual({ type: 'lost' });
+      expect(engine.isPinching).toBe(false);
+      expect(engine.process([hand(0.6)], 700, squareAt)?.type).toBe('hover');
+    });
+
+    it('una mano que vuelve a tiempo mantiene el agarre', () => {
+      const engine = new GestureEngine({ lostTimeout: 500 });
+      engine.process([hand(0.2)], 0, squareAt);
+      expect(engine.process([], 400, squareAt)).toBeNull();
+      expect(engine.process([hand(0.4)], 450, squareAt)?.type).toBe('move');
+    });
+
+    it('sin ninguna mano vista no hay nada que perder', () => {
+      const engine = new GestureEngine({ lostTimeout: 100 });
+      expect(engine.process([], 5000, squareAt)).toBeNull();
+    });
+  });
+
+  describe('cancelación del agarre', () => {
+    it("cancelGrab termina el pellizco y abrir la mano ya no emite 'release'", () => {
+      const engine = new GestureEngine();
+      expect(types(engine, [0.2, 0.3])).toEqual(['grab', 'move']);
+      engine.cancelGrab();
+      expect(engine.isPinching).toBe(false);
+      expect(engine.process([hand(0.6)], 100, squareAt)?.type).toBe('hover');
+    });
+
+    it('tras cancelar, un pellizco nuevo vuelve a agarrar', () => {
+      const engine = new GestureEngine();
+      engine.process([hand(0.2)], 0, squareAt);
+      engine.cancelGrab();
+      expect(types(engine, [0.6, 0.2])).toEqual(['hover', 'grab']);
+    });
+  });
+
+  describe('palma abierta durante el arrastre', () => {
+    it('sin keepGrabOnOpenPalm abrir la palma suelta enseguida', () => {
+      const engine = new GestureEngine();
+      engine.process([hand(0.2)], 0, squareAt);
+      expect(engine.process([openPalm()], 33, squareAt)?.type).toBe('release');
+    });
+
+    it('mantiene el agarre mientras la mano pasa por posturas intermedias hasta ser palma', () => {
+      const engine = new GestureEngine({ keepGrabOnOpenPalm: true, releaseDebounceMs: 250 });
+      engine.process([hand(0.2)], 0, squareAt);
+      // La mano se abre: dos fotogramas sin postura reconocible y luego la palma
+      expect(engine.process([hand(0.6)], 33, squareAt)?.type).toBe('move');
+      expect(engine.process([hand(0.7)], 66, squareAt)?.type).toBe('move');
+      expect(engine.process([openPalm()], 100, squareAt)?.type).toBe('move');
+      expect(engine.process([openPalm()], 2000, squareAt)?.type).toBe('move');
+      expect(engine.isPinching).toBe(true);
+      engine.cancelGrab();
+      expect(engine.process([openPalm()], 2033, squareAt)?.type).toBe('hover');
+    });
+
+    it('suelta si la mano sigue abierta sin ser palma más de releaseDebounceMs', () => {
+      const engine = new GestureEngine({ keepGrabOnOpenPalm: true, releaseDebounceMs: 250 });
+      engine.process([hand(0.2)], 0, squareAt);
+      expect(engine.process([hand(0.6)], 100, squareAt)?.type).toBe('move');
+      expect(engine.process([hand(0.6)], 300, squareAt)?.type).toBe('move');
+      expect(engine.process([hand(0.6)], 350, squareAt)?.type).toBe('release');
+    });
+
+    it('volver a cerrar el pellizco reinicia la espera', () => {
+      const engine = new GestureEngine({ keepGrabOnOpenPalm: true, releaseDebounceMs: 250 });
+      engine.process([hand(0.2)], 0, squareAt);
+      engine.process([hand(0.6)], 100, squareAt);
+      engine.process([hand(0.3)], 200, squareAt);
+      expect(engine.process([hand(0.6)], 400, squareAt)?.type).toBe('move');
+      expect(engine.process([hand(0.6)], 650, squareAt)?.type).toBe('release');
+    });
+  });
+
+  it('entrega la punta del índice filtrada y la casilla de debajo', () => {
+    const engine = new GestureEngine();
+    const event = engine.process([hand(0.6, 0.3)], 0, (point) => (point.x < 0.5 ? 'a1' : 'h8'));
+    expect(event).toEqual({ type: 'hover', square: 'a1', point: { x: 0.3, y: 0.4 } });
+  });
+});
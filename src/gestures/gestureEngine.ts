@@ -0,0 +1,140 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import type { Square } from 'chess.js';
+import type { Point } from '../calibration/homography';
+import { classifyPose } from './handPoses';
+import { DEFAULT_ONE_EURO, OneEuroFilter, type OneEuroOptions } from './oneEuroFilter';
+
+// Índices de landmarks de MediaPipe Hands
+const WRIST = 0;
+const THUMB_TIP = 4;
+const INDEX_TIP = 8;
+const MIDDLE_MCP = 9;
+
+// `point` es la punta del índice ya filtrada, en coordenadas normalizadas de la cámara
+export type GestureEvent =
+  | { type: 'hover'; square: Square | null; point: Point }
+  | { type: 'grab'; square: Square | null; point: Point }
+  | { type: 'move'; square: Square | null; point: Point }
+  | { type: 'release'; square: Square | null; point: Point }
+  | { type: 'lost' };
+
+export interface GestureEngineOptions {
+  // Distancia pulgar–índice dividida por el tamaño de la palma
+  pinchEnter: number; // por debajo empieza el pellizco
+  pinchExit: number; // por encima termina (> pinchEnter, histéresis)
+  lostTimeout: number; // ms sin mano antes de emitir 'lost'
+  // Abrir la palma durante un arrastre no suelta la pieza (la palma abierta sirve para cancelarlo)
+  keepGrabOnOpenPalm: boolean;
+  // Con keepGrabOnOpenPalm, ms que la mano tiene que seguir abierta sin ser una palma antes de
+  // soltar: mientras se abre pasa por posturas intermedias que aún no cuentan como palma
+  releaseDebounceMs: number;
+  filter: OneEuroOptions;
+}
+
+export const DEFAULT_GESTURE_OPTIONS: GestureEngineOptions = {
+  pinchEnter: 0.35,
+  pinchExit: 0.5,
+  lostTimeout: 1500,
+  keepGrabOnOpenPalm: false,
+  releaseDebounceMs: 250,
+  filter: DEFAULT_ONE_EURO,
+};
+
+function distance(a: NormalizedLandmark, b: NormalizedLandmark): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, (a.z ?? 0) - (b.z ?? 0));
+}
+
+// Pellizco relativo al tamaño de la mano, para que no dependa de la distancia a la cámara
+export function pinchRatio(landmarks: NormalizedLandmark[]): number {
+  const handSize = distance(landmarks[WRIST], landmarks[MIDDLE_MCP]);
+  if (handSize === 0) return Infinity;
+  return distance(landmarks[THUMB_TIP], landmarks[INDEX_TIP]) / handSize;
+}
+
+// ────────────────────────────────────────────────
+// Motor de gestos: landmarks por fotograma → eventos tipados
+// ────────────────────────────────────────────────
+export class GestureEngine {
+  private options: GestureEngineOptions;
+  private filterX: OneEuroFilter;
+  private filterY: OneEuroFilter;
+  private pinching = false;
+  private lastSeen: number | null = null;
+  // Desde cuándo la mano está abierta durante el arrastre sin que sea todavía una palma
+  private openSince: number | null = null;
+
+  constructor(options: Partial<GestureEngineOptions> = {}) {
+    this.options = { ...DEFAULT_GESTURE_OPTIONS, ...options };
+    this.filterX = new OneEuroFilter(this.options.filter);
+    this.filterY = new OneEuroFilter(this.options.filter);
+  }
+
+  get isPinching(): boolean {
+    return this.pinching;
+  }
+
+  // Procesa un fotograma. `hands` son los landmarks de HandLandmarker (se usa la primera mano)
+  // y `squareAt` traduce un punto de la cámara a la casilla que hay debajo.
+  // Devuelve null si no hay nada que contar (mano ausente pero aún no perdida).
+  process(hands: NormalizedLandmark[][], timestamp: number, squareAt: (point: Point) => Square | null): GestureEvent | null {
+    const landmarks = hands[0];
+    if (!landmarks) {
+      if (this.lastSeen !== null && timestamp - this.lastSeen > this.options.lostTimeout) {
+        this.reset();
+        return { type: 'lost' };
+      }
+      return null;
+    }
+    this.lastSeen = timestamp;
+
+    const tip = landmarks[INDEX_TIP];
+    const point = {
+      x: this.filterX.filter(tip.x, timestamp),
+      y: this.filterY.filter(tip.y, timestamp),
+    };
+    const square = squareAt(point);
+
+    const ratio = pinchRatio(landmarks);
+    if (!this.pinching && ratio < this.options.pinchEnter) {
+      this.pinching = true;
+      return { type: 'grab', square, point };
+    }
+    if (this.pinching && ratio > this.options.pinchExit && this.shouldRelease(landmarks, timestamp)) {
+      this.pinching = false;
+      this.openSince = null;
+      return { type: 'release', square, point };
+    }
+    if (ratio <= this.options.pinchExit) this.openSince = null;
+    return { type: this.pinching ? 'move' : 'hover', square, point };
+  }
+
+  // Con la palma abierta el agarre se mantiene hasta que la orden lo cancele (cancelGrab);
+  // cualquier otra mano abierta suelta cuando lleva releaseDebounceMs así
+  private shouldRelease(landmarks: NormalizedLandmark[], timestamp: number): boolean {
+    if (!this.options.keepGrabOnOpenPalm) return true;
+    if (classifyPose(landmarks) === 'open-palm') {
+      this.openSince = null;
+      return false;
+    }
+    this.openSince ??= timestamp;
+    return timestamp - this.openSince >= this.options.releaseDebounceMs;
+  }
+
+  configure(options: Partial<Omit<GestureEngineOptions, 'filter'>>) {
+    this.options = { ...this.options, ...options };
+  }
+
+  // Da por terminado el pellizco en curso sin emitir 'release' (arrastre cancelado con un gesto)
+  cancelGrab() {
+    this.pinching = false;
+    this.openSince = null;
+  }
+
+  reset() {
+    this.pinching = false;
+    this.openSince = null;
+    this.lastSeen = null;
+    this.filterX.reset();
+    this.filterY.reset();
+  }
+}
@@ -0,0 +1,73 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import type { Square } from 'chess.js';
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_GESTURE_BINDINGS } from './commandGestures';
+import { continuingEvent, GesturePipeline } from './gesturePipeline';
+import { handsBySide } from './handAssignment';
+
+// Mano con la punta del índice en (x, 0.4), sin pellizcar o pellizcando
+function hand(x: number, pinching = false): NormalizedLandmark[] {
+  const landmarks = Array.from({ length: 21 }, () => ({ x, y: 0.5, z: 0, visibility: 1 }));
+  landmarks[0] = { x, y: 0.8, z: 0, visibility: 1 };
+  landmarks[9] = { x, y: 0.6, z: 0, visibility: 1 };
+  landmarks[4] = { x: x - (pinching ? 0.02 : 0.12), y: 0.4, z: 0, visibility: 1 };
+  landmarks[8] = { x, y: 0.4, z: 0, visibility: 1 };
+  return landmarks;
+}
+
+// Palma abierta: los cuatro dedos estirados y el pulgar separado
+function openPalm(x: number): NormalizedLandmark[] {
+  const landmarks = hand(x);
+  [12, 16, 20].forEach((tip) => {
+    landmarks[tip] = { x, y: 0.4, z: 0, visibility: 1 };
+  });
+  return landmarks;
+}
+
+const squareAt = ({ x }: { x: number }): Square => (x < 0.5 ? 'a1' : 'h1');
+
+describe('GesturePipeline', () => {
+  it("no repite 'hover' ni 'move' sobre la misma casilla", () => {
+    const pipeline = new GesturePipeline();
+    const types = [hand(0.2), hand(0.21), hand(0.8), hand(0.8, true), hand(0.81, true), hand(0.8)].map((landmarks, i) =>
+      pipeline.process({ w: [landmarks], b: [] }, i * 33, squareAt, null).events.map(({ event }) => event.type));
+    expect(types).toEqual([['hover'], [], ['hover'], ['grab'], ['move'], ['release']]);
+  });
+
+  it('cada lado sigue su propia mano y su puntero', () => {
+    const pipeline = new GesturePipeline();
+    const frame = pipeline.process({ w: [hand(0.2)], b: [hand(0.8)] }, 0, squareAt, null);
+    expect(frame.events.map(({ side, event }) => [side, event.type === 'lost' ? null : event.square]))
+      .toEqual([['w', 'a1'], ['b', 'h1']]);
+    expect(frame.pointers.w?.x).toBeCloseTo(0.2);
+    expect(frame.pointers.b?.x).toBeCloseTo(0.8);
+  });
+
+  it('sin asignaciones no reconoce órdenes', () => {
+    const pipeline = new GesturePipeline();
+    const frame = pipeline.process({ w: [hand(0.2)], b: [] }, 0, squareAt, null);
+    expect(frame.holds).toEqual({ w: null, b: null });
+    expect(frame.fired).toEqual([]);
+  });
+
+  it('entre dos jugadores repartidos por mitades, las dos palmas de un lado cuentan para ese lado', () => {
+    const pipeline = new GesturePipeline();
+    const detected = [openPalm(0.2), hand(0.8), openPalm(0.3)].map((landmarks) => ({ landmarks, handedness: '' }));
+    const hands = handsBySide(detected, 'half', 'w');
+    expect(hands.w).toHaveLength(2);
+    const fired = [0, 500, 1000].flatMap((t) => pipeline.process(hands, t, squareAt, DEFAULT_GESTURE_BINDINGS).fired);
+    expect(fired).toEqual([{ side: 'w', gesture: 'two-palms' }]);
+  });
+});
+
+describe('continuingEvent', () => {
+  it('repite el último evento con el puntero actual', () => {
+    const point = { x: 0.3, y: 0.3 };
+    expect(continuingEvent({ type: 'grab', square: 'e2', point: { x: 0, y: 0 } }, point))
+      .toEqual({ type: 'move', square: 'e2', point });
+    expect(continuingEvent({ type: 'release', square: 'e4', point: { x: 0, y: 0 } }, point))
+      .toEqual({ type: 'hover', square: 'e4', point });
+    expect(continuingEvent({ type: 'lost' }, point)).toBeNull();
+    expect(continuingEvent({ type: 'hover', square: 'e4', point }, null)).toBeNull();
+  });
+});
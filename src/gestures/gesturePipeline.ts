@@ -0,0 +1,88 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import type { Color, Square } from 'chess.js';
+import type { Point } from '../calibration/homography';
+import { CommandRecognizer, type CommandGesture, type CommandHold, type GestureBindings } from './commandGestures';
+import { GestureEngine, type GestureEvent } from './gestureEngine';
+
+const SIDES: Color[] = ['w', 'b'];
+
+// Resultado de un fotograma para los dos lados. Los eventos solo incluyen cambios:
+// un 'hover' o 'move' sobre la misma casilla que el anterior no se repite.
+export interface GestureFrame {
+  pointers: Record<Color, Point | null>; // punta del índice filtrada, en coordenadas normalizadas de la cámara
+  events: { side: Color; event: GestureEvent }[];
+  holds: Record<Color, CommandHold | null>;
+  fired: { side: Color; gesture: CommandGesture }[];
+}
+
+// ────────────────────────────────────────────────
+// Gestos de los dos lados: pellizco, órdenes y filtrado de eventos repetidos.
+// Lo usan el worker de la cámara y el reproductor de grabaciones sin navegador.
+// ────────────────────────────────────────────────
+export class GesturePipeline {
+  private engines: Record<Color, GestureEngine> = { w: new GestureEngine(), b: new GestureEngine() };
+  private recognizers: Record<Color, CommandRecognizer> = { w: new CommandRecognizer(), b: new CommandRecognizer() };
+  private pointers: Record<Color, Point | null> = { w: null, b: null };
+  // Último evento emitido de cada lado
+  private lastSent: Record<Color, GestureEvent | null> = { w: null, b: null };
+
+  configure(options: { keepGrabOnOpenPalm: boolean }) {
+    SIDES.forEach((side) => this.engines[side].configure(options));
+  }
+
+  // `hands` son las manos ya repartidas por lado. Sin `bindings` no se reconocen órdenes
+  // (al calibrar, durante la coronación o con el tablero real).
+  process(
+    hands: Record<Color, NormalizedLandmark[][]>,
+    timestamp: number,
+    squareAt: (point: Point) => Square | null,
+    bindings: GestureBindings | null,
+  ): GestureFrame {
+    const events: GestureFrame['events'] = [];
+    const holds: GestureFrame['holds'] = { w: null, b: null };
+    const fired: GestureFrame['fired'] = [];
+    SIDES.forEach((side) => {
+      const event = this.engines[side].process(hands[side], timestamp, squareAt);
+      if (event) {
+        this.pointers[side] = event.type === 'lost' ? null : event.point;
+        if (this.changed(side, event)) events.push({ side, event });
+      }
+      if (bindings) {
+        const update = this.recognizers[side].update(hands[side], timestamp, this.engines[side].isPinching, bindings);
+        holds[side] = update.hold;
+        if (update.fired) fired.push({ side, gesture: update.fired });
+      }
+    });
+    return { pointers: { ...this.pointers }, events, holds, fired };
+  }
+
+  // Arrastre cancelado con un gesto: el pellizco en curso termina sin 'release'
+  cancelGrab(side: Color) {
+    this.engines[side].cancelGrab();
+  }
+
+  reset() {
+    SIDES.forEach((side) => {
+      this.engines[side].reset();
+      this.recognizers[side].reset();
+      this.pointers[side] = null;
+      this.lastSent[side] = null;
+    });
+  }
+
+  private changed(side: Color, event: GestureEvent): boolean {
+    const last = this.lastSent[side];
+    if ((event.type === 'hover' || event.type === 'move') && last?.type === event.type && last.square === event.square) {
+      return false;
+    }
+    this.lastSent[side] = event;
+    return true;
+  }
+}
+
+// Solo llegan los cambios de evento, pero la permanencia y la coronación siguen el puntero
+// en cada fotograma: se repite el último evento con la posición actual
+export function continuingEvent(event: GestureEvent | null, point: Point | null): GestureEvent | null {
+  if (!event || event.type === 'lost' || !point) return null;
+  return { type: event.type === 'grab' || event.type === 'move' ? 'move' : 'hover', square: event.square, point };
+}
@@ -0,0 +1,60 @@
+import type { HandLandmarkerResult, NormalizedLandmark } from '@mediapipe/tasks-vision';
+import type { Color } from 'chess.js';
+
+// Cómo se reparten las manos entre los dos lados en el modo de dos jugadores
+export type HandAssignment = 'handedness' | 'half';
+
+export const HAND_ASSIGNMENTS: HandAssignment[] = ['handedness', 'half'];
+
+export interface DetectedHand {
+  landmarks: NormalizedLandmark[];
+  handedness: string; // 'Left' | 'Right' según MediaPipe
+}
+
+const WRIST = 0;
+
+export function detectedHands(detections: Pick<HandLandmarkerResult, 'landmarks' | 'handedness'>): DetectedHand[] {
+  return detections.landmarks.map((landmarks, i) => ({
+    landmarks,
+    handedness: detections.handedness[i]?.[0]?.categoryName ?? '',
+  }));
+}
+
+// MediaPipe etiqueta la lateralidad suponiendo una imagen de selfie ya espejada.
+// La cámara llega sin espejar, así que la etiqueta 'Left' es la mano derecha real.
+function sideByHandedness(hand: DetectedHand): Color | null {
+  if (hand.handedness === 'Left') return 'w';
+  if (hand.handedness === 'Right') return 'b';
+  return null;
+}
+
+// La mitad se mide sobre la imagen tal y como se ve en el panel de la cámara
+function sideByHalf(hand: DetectedHand): Color {
+  return hand.landmarks[WRIST].x < 0.5 ? 'w' : 'b';
+}
+
+// Cada lado recibe sus manos en el orden de HandLandmarker (la primera, la de mayor confianza,
+// es la que mueve piezas; la segunda solo cuenta para las dos palmas). Por lateralidad cada
+// jugador tiene una sola mano, así que las dos palmas solo son posibles repartiendo por mitades.
+export function assignHands(hands: DetectedHand[], mode: HandAssignment): Record<Color, NormalizedLandmark[][]> {
+  const assigned: Record<Color, NormalizedLandmark[][]> = { w: [], b: [] };
+  for (const hand of hands) {
+    const side = mode === 'handedness' ? sideByHandedness(hand) : sideByHalf(hand);
+    if (side) assigned[side].push(hand.landmarks);
+  }
+  return assigned;
+}
+
+// Contra la IA todas las manos son del jugador
+export function allHandsTo(side: Color, hands: NormalizedLandmark[][]): Record<Color, NormalizedLandmark[][]> {
+  return side === 'w' ? { w: hands, b: [] } : { w: [], b: hands };
+}
+
+// Reparto de un fotograma: con `mode` cada lado tiene sus manos; sin él todas son de `playerColor`
+export function handsBySide(
+  hands: DetectedHand[],
+  mode: HandAssignment | null,
+  playerColor: Color,
+): Record<Color, NormalizedLandmark[][]> {
+  return mode ? assignHands(hands, mode) : allHandsTo(playerColor, hands.map((hand) => hand.landmarks));
+}
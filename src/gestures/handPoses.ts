@@ -0,0 +1,53 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
+
+// Índices de landmarks de MediaPipe Hands
+const WRIST = 0;
+const THUMB_MCP = 2;
+const THUMB_TIP = 4;
+const INDEX_MCP = 5;
+const MIDDLE_MCP = 9;
+// [PIP, punta] de índice, corazón, anular y meñique
+const FINGERS: [number, number][] = [[6, 8], [10, 12], [14, 16], [18, 20]];
+
+// Posturas estáticas de una mano que se usan como órdenes
+export type HandPose = 'open-palm' | 'thumbs-up' | 'victory';
+
+type FingerState = 'extended' | 'curled' | 'unclear';
+
+// Con margen entre los dos umbrales, una mano a medio cerrar no cuenta como ninguna postura
+const EXTENDED_RATIO = 1.2;
+const CURLED_RATIO = 1.0;
+const THUMB_EXTENDED = 0.7; // distancia punta del pulgar – base del índice / tamaño de la palma
+
+function distance(a: NormalizedLandmark, b: NormalizedLandmark): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, (a.z ?? 0) - (b.z ?? 0));
+}
+
+// Un dedo está estirado si la punta queda bastante más lejos de la muñeca que su nudillo central
+function fingerState(landmarks: NormalizedLandmark[], [pip, tip]: [number, number]): FingerState {
+  const ratio = distance(landmarks[WRIST], landmarks[tip]) / distance(landmarks[WRIST], landmarks[pip]);
+  if (ratio > EXTENDED_RATIO) return 'extended';
+  if (ratio < CURLED_RATIO) return 'curled';
+  return 'unclear';
+}
+
+export function classifyPose(landmarks: NormalizedLandmark[]): HandPose | null {
+  const handSize = distance(landmarks[WRIST], landmarks[MIDDLE_MCP]);
+  if (handSize === 0) return null;
+  const [index, middle, ring, pinky] = FINGERS.map((finger) => fingerState(landmarks, finger));
+  const thumbOut = distance(landmarks[THUMB_TIP], landmarks[INDEX_MCP]) / handSize > THUMB_EXTENDED;
+
+  if (thumbOut && [index, middle, ring, pinky].every((state) => state === 'extended')) return 'open-palm';
+
+  // Pulgar hacia arriba (la y de la imagen crece hacia abajo) y por encima de toda la mano
+  const thumbUp = landmarks[THUMB_MCP].y - landmarks[THUMB_TIP].y > 0.5 * handSize
+    && landmarks.every((landmark, i) => i === THUMB_TIP || landmark.y >= landmarks[THUMB_TIP].y);
+  if (thumbOut && thumbUp && [index, middle, ring, pinky].every((state) => state === 'curled')) return 'thumbs-up';
+
+  if (index === 'extended' && middle === 'extended' && ring === 'curled' && pinky === 'curled') return 'victory';
+  return null;
+}
+
+export function wristOf(landmarks: NormalizedLandmark[]): { x: number; y: number } {
+  return { x: landmarks[WRIST].x, y: landmarks[WRIST].y };
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { OneEuroFilter } from './oneEuroFilter';
+
+const FRAME_MS = 1000 / 30;
+
+describe('OneEuroFilter', () => {
+  it('devuelve tal cual la primera muestra', () => {
+    const filter = new OneEuroFilter();
+    expect(filter.filter(0.42, 0)).toBe(0.42);
+  });
+
+  it('se queda quieto con una entrada constante', () => {
+    const filter = new OneEuroFilter();
+    for (let i = 0; i < 60; i++) {
+      expect(filter.filter(0.3, i * FRAME_MS)).toBeCloseTo(0.3, 12);
+    }
+  });
+
+  it('sigue un escalón sin pasarse y lo alcanza en menos de un segundo', () => {
+    const filter = new OneEuroFilter();
+    for (let i = 0; i < 10; i++) filter.filter(0, i * FRAME_MS);
+
+    const outputs: number[] = [];
+    for (let i = 10; i < 40; i++) outputs.push(filter.filter(1, i * FRAME_MS));
+
+    // Suaviza: el primer fotograma tras el salto no llega todavía al valor nuevo
+    expect(outputs[0]).toBeGreaterThan(0);
+    expect(outputs[0]).toBeLessThan(1);
+    // Avanza siempre hacia el objetivo, sin oscilar ni pasarse
+    for (let i = 1; i < outputs.length; i++) {
+      expect(outputs[i]).toBeGreaterThanOrEqual(outputs[i - 1]);
+      expect(outputs[i]).toBeLessThanOrEqual(1);
+    }
+    expect(outputs[outputs.length - 1]).toBeGreaterThan(0.99);
+  });
+
+  it('suaviza más cuanto más bajo es minCutoff', () => {
+    const smooth = new OneEuroFilter({ minCutoff: 0.5, beta: 0, dCutoff: 1 });
+    const responsive = new OneEuroFilter({ minCutoff: 5, beta: 0, dCutoff: 1 });
+    smooth.filter(0, 0);
+    responsive.filter(0, 0);
+    expect(smooth.filter(1, FRAME_MS)).toBeLessThan(responsive.filter(1, FRAME_MS));
+  });
+
+  it('vuelve a empezar con una marca de tiempo repetida o tras reset', () => {
+    const filter = new OneEuroFilter();
+    filter.filter(0, 0);
+    expect(filter.filter(1, 0)).toBe(1);
+    filter.reset();
+    expect(filter.filter(0.7, 5000)).toBe(0.7);
+  });
+});
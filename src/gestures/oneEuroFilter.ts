@@ -0,0 +1,55 @@
+// Filtro One Euro (Casiez et al., 2012): suaviza mucho cuando la mano está casi quieta
+// y poco cuando se mueve rápido, así el cursor no tiembla pero tampoco se retrasa.
+export interface OneEuroOptions {
+  minCutoff: number; // Hz; más bajo = menos temblor en reposo
+  beta: number; // cuánto sube el corte con la velocidad; más alto = menos retraso
+  dCutoff: number; // Hz; corte para la estimación de la velocidad
+}
+
+// Ajustado para coordenadas normalizadas de MediaPipe (0-1), no para píxeles
+export const DEFAULT_ONE_EURO: OneEuroOptions = { minCutoff: 1.5, beta: 2.0, dCutoff: 1.0 };
+
+function smoothingFactor(cutoff: number, dt: number): number {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+}
+
+export class OneEuroFilter {
+  private options: OneEuroOptions;
+  private prevValue: number | null = null;
+  private prevDerivative = 0;
+  private prevTime = 0;
+
+  constructor(options: OneEuroOptions = DEFAULT_ONE_EURO) {
+    this.options = options;
+  }
+
+  // `timestamp` en milisegundos
+  filter(value: number, timestamp: number): number {
+    if (this.prevValue === null || timestamp <= this.prevTime) {
+      this.prevValue = value;
+      this.prevTime = timestamp;
+      return value;
+    }
+
+    const dt = (timestamp - this.prevTime) / 1000;
+    const derivative = (value - this.prevValue) / dt;
+    const aD = smoothingFactor(this.options.dCutoff, dt);
+    const smoothedDerivative = aD * derivative + (1 - aD) * this.prevDerivative;
+
+    const cutoff = this.options.minCutoff + this.options.beta * Math.abs(smoothedDerivative);
+    const a = smoothingFactor(cutoff, dt);
+    const smoothed = a * value + (1 - a) * this.prevValue;
+
+    this.prevValue = smoothed;
+    this.prevDerivative = smoothedDerivative;
+    this.prevTime = timestamp;
+    return smoothed;
+  }
+
+  reset() {
+    this.prevValue = null;
+    this.prevDerivative = 0;
+    this.prevTime = 0;
+  }
+}
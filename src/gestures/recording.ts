@@ -0,0 +1,151 @@
+import type { HandLandmarkerResult, NormalizedLandmark } from '@mediapipe/tasks-vision';
+import type { Color } from 'chess.js';
+import type { BoardOrientation } from '../board/geometry';
+import type { Quad } from '../calibration/homography';
+import type { GestureBindings } from './commandGestures';
+import type { InputSettings } from './dwellSelector';
+import type { DetectedHand, HandAssignment } from './handAssignment';
+
+export const RECORDING_VERSION = 1;
+
+// [x, y, z] de cada landmark, para que los ficheros no crezcan demasiado
+export type RecordedLandmark = [number, number, number];
+
+export interface RecordedHand {
+  handedness: string; // 'Left' | 'Right' según MediaPipe
+  landmarks: RecordedLandmark[];
+}
+
+export interface RecordedFrame {
+  t: number; // ms desde el inicio de la grabación
+  hands: RecordedHand[];
+}
+
+// Lo necesario para reproducir la sesión con el mismo mapeo cámara → tablero
+export interface RecordingMeta {
+  recordedAt: string;
+  startFen: string;
+  playerColor: Color;
+  boardOrientation: BoardOrientation;
+  calibration: Quad;
+  // Solo en partidas de dos jugadores: cómo se repartían las manos
+  handAssignment?: HandAssignment;
+  // Pellizco o permanencia; sin él, pellizco
+  input?: InputSettings;
+  // Gestos de orden activos; sin ellos no se reconoce ninguno
+  bindings?: GestureBindings;
+}
+
+export interface Recording {
+  version: number;
+  meta: RecordingMeta;
+  frames: RecordedFrame[];
+}
+
+export type RecordingFormatErrorCode = 'invalid-json' | 'unsupported-version' | 'missing-fields' | 'invalid-calibration';
+
+// El texto de cada motivo está en el catálogo de mensajes (errors.recording en i18n/messages.ts)
+export class RecordingFormatError extends Error {
+  readonly code: RecordingFormatErrorCode;
+  readonly detail: string; // dato concreto que completa el texto (puede estar vacío)
+
+  constructor(code: RecordingFormatErrorCode, detail = '') {
+    super(detail ? `${code}: ${detail}` : code);
+    this.name = 'RecordingFormatError';
+    this.code = code;
+    this.detail = detail;
+  }
+}
+
+// ────────────────────────────────────────────────
+// Grabación
+// ────────────────────────────────────────────────
+export class SessionRecorder {
+  private meta: RecordingMeta;
+  private frames: RecordedFrame[] = [];
+  private startTime: number | null = null;
+
+  constructor(meta: RecordingMeta) {
+    this.meta = meta;
+  }
+
+  get frameCount(): number {
+    return this.frames.length;
+  }
+
+  addFrame(detections: Pick<HandLandmarkerResult, 'landmarks' | 'handedness'>, timestamp: number) {
+    this.startTime ??= timestamp;
+    this.frames.push({
+      t: Math.round((timestamp - this.startTime) * 10) / 10,
+      hands: detections.landmarks.map((landmarks, i) => ({
+        handedness: detections.handedness[i]?.[0]?.categoryName ?? '',
+        landmarks: landmarks.map((l) => [round(l.x), round(l.y), round(l.z)]),
+      })),
+    });
+  }
+
+  finish(): Recording {
+    return { version: RECORDING_VERSION, meta: this.meta, frames: this.frames };
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e5) / 1e5;
+}
+
+export function parseRecording(text: string): Recording {
+  let data: Recording;
+  try {
+    data = JSON.parse(text) as Recording;
+  } catch {
+    throw new RecordingFormatError('invalid-json');
+  }
+  if (data.version !== RECORDING_VERSION) {
+    throw new RecordingFormatError('unsupported-version', String(data.version));
+  }
+  if (!data.meta || !Array.isArray(data.frames)) {
+    throw new RecordingFormatError('missing-fields');
+  }
+  return data;
+}
+
+// Landmarks de un fotograma en el formato que devuelve HandLandmarker
+export function frameLandmarks(frame: RecordedFrame): NormalizedLandmark[][] {
+  return frame.hands.map((hand) => hand.landmarks.map(([x, y, z]) => ({ x, y, z, visibility: 0 })));
+}
+
+// Igual, pero conservando la lateralidad de cada mano
+export function frameHands(frame: RecordedFrame): DetectedHand[] {
+  const landmarks = frameLandmarks(frame);
+  return frame.hands.map((hand, i) => ({ landmarks: landmarks[i], handedness: hand.handedness }));
+}
+
+// ────────────────────────────────────────────────
+// Reproducción en tiempo real (sustituye a la cámara)
+// ────────────────────────────────────────────────
+export class ReplaySource {
+  readonly recording: Recording;
+  private startTime: number | null = null;
+  private index = -1;
+
+  constructor(recording: Recording) {
+    this.recording = recording;
+  }
+
+  get finished(): boolean {
+    return this.index >= this.recording.frames.length - 1;
+  }
+
+  // Fotogramas cuyo instante ya ha pasado en `now`, en orden y sin saltarse ninguno
+  pendingFrames(now: number): RecordedFrame[] {
+    this.startTime ??= now;
+    const elapsed = now - this.startTime;
+    const frames = this.recording.frames;
+    const pending: RecordedFrame[] = [];
+    while (this.index + 1 < frames.length && frames[this.index + 1].t <= elapsed) {
+      this.index++;
+      pending.push(frames[this.index]);
+    }
+    return pending;
+  }
+}
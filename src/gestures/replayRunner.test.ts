@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { parseRecording } from './recording';
+import { runRecording } from './replayRunner';
+
+// Las mismas grabaciones que comprueba `npm run test:replay`
+const recordings = import.meta.glob<string>('../../recordings/*.json', { query: '?raw', import: 'default', eager: true });
+const pgns = import.meta.glob<string>('../../recordings/*.pgn', { query: '?raw', import: 'default', eager: true });
+
+function load(name: string) {
+  return {
+    recording: parseRecording(recordings[`../../recordings/${name}.json`]),
+    pgn: pgns[`../../recordings/${name}.pgn`],
+  };
+}
+
+describe('runRecording', () => {
+  it('hay grabaciones con su PGN esperado', () => {
+    expect(Object.keys(recordings).length).toBeGreaterThan(0);
+    Object.keys(recordings).forEach((file) => expect(pgns[file.replace(/\.json$/, '.pgn')]).toBeDefined());
+  });
+
+  it.each(Object.keys(recordings))('%s reproduce las jugadas de su PGN', (file) => {
+    const recording = parseRecording(recordings[file]);
+    const result = runRecording(recording, pgns[file.replace(/\.json$/, '.pgn')]);
+    expect(result.moves).toEqual(result.expected);
+    expect(result.passed).toBe(true);
+  });
+
+  it('la palma abierta cancela el arrastre solo si tiene asignada esa orden', () => {
+    const { recording, pgn } = load('pellizco');
+    const bindings = { ...recording.meta.bindings!, 'open-palm': 'none' as const };
+    const result = runRecording({ ...recording, meta: { ...recording.meta, bindings } }, pgn);
+    // Sin la orden, abrir la mano suelta el caballo en f3
+    expect(result.moves.slice(0, 3)).toEqual(['e4', 'e5', 'Nf3']);
+  });
+
+  it('el barrido deshace la jugada y la respuesta de la IA', () => {
+    const { recording, pgn } = load('pellizco');
+    const bindings = { ...recording.meta.bindings!, swipe: 'none' as const };
+    const result = runRecording({ ...recording, meta: { ...recording.meta, bindings } }, pgn);
+    expect(result.moves.slice(0, 4)).toEqual(['e4', 'e5', 'Nc3', 'Nc6']);
+    expect(result.passed).toBe(false);
+  });
+
+  it('la permanencia necesita el modo de la sesión: con pellizco no se mueve nada', () => {
+    const { recording, pgn } = load('permanencia');
+    const result = runRecording({ ...recording, meta: { ...recording.meta, input: { mode: 'pinch', dwellMs: 1000 } } }, pgn);
+    expect(result.moves).toEqual([]);
+  });
+});
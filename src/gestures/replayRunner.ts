@@ -0,0 +1,147 @@
+import { Chess, type Color, type Square } from 'chess.js';
+import { getSquareFromPosition } from '../board/geometry';
+import { isPromotionMove } from '../board/moves';
+import { applyHomography, computeHomography, UNIT_SQUARE } from '../calibration/homography';
+import { keepsGrabOnOpenPalm, type GestureCommand } from './commandGestures';
+import { interpretGesture } from './dragLogic';
+import { DEFAULT_INPUT_SETTINGS, DwellSelector, dwellToPinch } from './dwellSelector';
+import type { GestureEvent } from './gestureEngine';
+import { continuingEvent, GesturePipeline } from './gesturePipeline';
+import { handsBySide } from './handAssignment';
+import { frameHands, RecordingFormatError, type Recording } from './recording';
+
+export interface ReplayResult {
+  passed: boolean;
+  moves: string[];
+  expected: string[];
+  // Índice de la primera jugada distinta, o null si todo coincide
+  firstMismatch: number | null;
+}
+
+// Reproduce una grabación sin cámara ni navegador y compara las jugadas resultantes
+// con un PGN esperado. Los fotogramas pasan por el mismo pipeline de gestos que en el
+// worker (pellizco, órdenes y filtrado de eventos repetidos) y por la misma traducción
+// de la permanencia y del arrastre que en la app.
+// Las jugadas del rival (la IA en la sesión original) se toman del propio PGN; la
+// elección de pieza al coronar también, porque el selector es de la UI. En las
+// grabaciones de dos jugadores ambos lados salen de los gestos. De las órdenes solo
+// cuentan las que cambian las jugadas sin terminar la sesión: cancelar el arrastre y deshacer.
+export function runRecording(recording: Recording, expectedPgn: string): ReplayResult {
+  const { meta } = recording;
+  const expectedGame = new Chess();
+  expectedGame.loadPgn(expectedPgn);
+  const expectedMoves = expectedGame.history({ verbose: true });
+  const expected = expectedMoves.map((move) => move.san);
+
+  const cameraToBoard = computeHomography(meta.calibration, UNIT_SQUARE);
+  if (!cameraToBoard) throw new RecordingFormatError('invalid-calibration');
+  const squareAt = (point: { x: number; y: number }) => {
+    const boardPoint = applyHomography(cameraToBoard, point);
+    return getSquareFromPosition(boardPoint.x, boardPoint.y, 1, 1, meta.boardOrientation);
+  };
+
+  const { handAssignment } = meta;
+  const input = meta.input ?? DEFAULT_INPUT_SETTINGS;
+  const dwellMode = input.mode === 'dwell';
+  const bindings = meta.bindings ?? null;
+  const sides: Color[] = handAssignment ? ['w', 'b'] : [meta.playerColor];
+  const game = new Chess(meta.startFen);
+  const pipeline = new GesturePipeline();
+  pipeline.configure({ keepGrabOnOpenPalm: bindings ? keepsGrabOnOpenPalm(bindings) : false });
+  const dwellSelectors: Record<Color, DwellSelector> = { w: new DwellSelector(), b: new DwellSelector() };
+  const lastEvents: Record<Color, GestureEvent | null> = { w: null, b: null };
+  const dragStartSquares: Record<Color, Square | null> = { w: null, b: null };
+
+  const playOpponent = () => {
+    while (!handAssignment && game.turn() !== meta.playerColor && !game.isGameOver()) {
+      const reply = expected[game.history().length];
+      if (!reply) return;
+      try {
+        game.move(reply);
+      } catch {
+        // El jugador ya se ha desviado del PGN y la respuesta no es legal aquí
+        return;
+      }
+    }
+  };
+  playOpponent();
+
+  const handleGesture = (event: GestureEvent, side: Color, timestamp: number) => {
+    if (dwellMode) {
+      const step = dwellToPinch(event, dwellSelectors[side], timestamp, {
+        game, side, selected: dragStartSquares[side], locked: game.isGameOver(), dwellMs: input.dwellMs,
+      });
+      if (step.reselect) dragStartSquares[side] = null;
+      if (!step.event) return;
+      event = step.event;
+    }
+
+    const outcome = interpretGesture(event, game, side, dragStartSquares[side]);
+    switch (outcome?.type) {
+      case 'grabbed':
+        dragStartSquares[side] = outcome.square;
+        break;
+      case 'dropped': {
+        dragStartSquares[side] = null;
+        const promotion = isPromotionMove(game, outcome.from, outcome.to)
+          ? expectedMoves[game.history().length]?.promotion ?? 'q'
+          : undefined;
+        try {
+          game.move({ from: outcome.from, to: outcome.to, promotion });
+        } catch {
+          // Movimiento ilegal: en la partida en vivo solo muestra un aviso
+          break;
+        }
+        playOpponent();
+        break;
+      }
+      case 'dropped-same-square':
+      case 'dropped-off-board':
+      case 'cancelled':
+        dragStartSquares[side] = null;
+        break;
+    }
+  };
+
+  const runCommand = (command: GestureCommand, side: Color) => {
+    switch (command) {
+      case 'cancel-drag':
+        if (!dragStartSquares[side]) break;
+        pipeline.cancelGrab(side);
+        dragStartSquares[side] = null;
+        break;
+      case 'undo':
+        // Como en la app: contra la IA se deshace también su respuesta
+        if (game.history().length === 0) break;
+        if (!handAssignment && game.turn() === meta.playerColor) game.undo();
+        game.undo();
+        break;
+    }
+  };
+
+  for (const frame of recording.frames) {
+    const hands = handsBySide(frameHands(frame), handAssignment ?? null, meta.playerColor);
+    const output = pipeline.process(hands, frame.t, squareAt, bindings);
+
+    for (const side of sides) {
+      const changed = output.events.find((item) => item.side === side)?.event;
+      if (changed) lastEvents[side] = changed;
+      const event = changed ?? (dwellMode ? continuingEvent(lastEvents[side], output.pointers[side]) : null);
+      if (event) handleGesture(event, side, frame.t);
+      if (bindings) {
+        output.fired.filter((item) => item.side === side).forEach(({ gesture }) => runCommand(bindings[gesture], side));
+      }
+    }
+  }
+
+  const moves = game.history();
+  const length = Math.max(moves.length, expected.length);
+  let firstMismatch: number | null = null;
+  for (let i = 0; i < length; i++) {
+    if (moves[i] !== expected[i]) {
+      firstMismatch = i;
+      break;
+    }
+  }
+  return { passed: firstMismatch === null, moves, expected, firstMismatch };
+}
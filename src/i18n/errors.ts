@@ -0,0 +1,20 @@
+import { GameRecordError } from '../board/record';
+import { RecordingFormatError } from '../gestures/recording';
+import { ProtocolError, type ProtocolErrorCode } from '../network/protocol';
+import { PuzzleFormatError } from '../puzzles/puzzles';
+import type { Messages } from './messages';
+
+// Texto de un error con código en el idioma de la interfaz, o null si no es uno de ellos
+export function errorText(t: Messages, err: unknown): string | null {
+  if (err instanceof GameRecordError) return t.errors.record[err.code](err.detail);
+  if (err instanceof PuzzleFormatError) return t.errors.puzzle[err.code](err.detail);
+  if (err instanceof RecordingFormatError) return t.errors.recording[err.code](err.detail);
+  if (err instanceof ProtocolError) return protocolErrorText(t, err.code, err.detail);
+  return null;
+}
+
+// El código llega del servidor: uno que esta versión no conoce se muestra tal cual
+export function protocolErrorText(t: Messages, code: ProtocolErrorCode, detail: string): string {
+  const text = t.errors.protocol[code];
+  return text ? text(detail) : code;
+}
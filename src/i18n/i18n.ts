@@ -0,0 +1,44 @@
+import { createContext, useContext } from 'react';
+import { MESSAGES, type Language, type Messages } from './messages';
+
+// Idioma de la interfaz y anuncio hablado de las jugadas
+export interface LanguageSettings {
+  language: Language;
+  speakMoves: boolean;
+}
+
+const STORAGE_KEY = 'ajedrezAR.language';
+
+// Sin preferencia guardada se sigue el idioma del navegador (español si no es ninguno de los dos)
+function browserLanguage(): Language {
+  return navigator.language.toLowerCase().startsWith('en') ? 'en' : 'es';
+}
+
+// Los componentes leen los textos del idioma actual; App los proporciona
+export const I18nContext = createContext<Messages>(MESSAGES.es);
+
+export function useMessages(): Messages {
+  return useContext(I18nContext);
+}
+
+// ────────────────────────────────────────────────
+// Persistencia
+// ────────────────────────────────────────────────
+export function loadLanguageSettings(): LanguageSettings {
+  const defaults: LanguageSettings = { language: browserLanguage(), speakMoves: false };
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return defaults;
+    const parsed = JSON.parse(raw) as Partial<LanguageSettings>;
+    return {
+      language: parsed.language && parsed.language in MESSAGES ? parsed.language : defaults.language,
+      speakMoves: typeof parsed.speakMoves === 'boolean' ? parsed.speakMoves : defaults.speakMoves,
+    };
+  } catch {
+    return defaults;
+  }
+}
+
+export function saveLanguageSettings(settings: LanguageSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
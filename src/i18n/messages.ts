@@ -0,0 +1,897 @@
+import type { Color, Move, PieceSymbol, Square } from 'chess.js';
+import type { GameMode, GameRecordErrorCode } from '../board/record';
+import type { TimeControlId } from '../clock/chessClock';
+import type { PuzzleStatus } from '../components/PuzzlePanel';
+import type { Difficulty } from '../engine/stockfish';
+import type { MoveClass } from '../engine/gameAnalysis';
+import type { CommandGesture, GestureCommand } from '../gestures/commandGestures';
+import type { InputMode } from '../gestures/dwellSelector';
+import type { HandAssignment } from '../gestures/handAssignment';
+import type { RecordingFormatErrorCode } from '../gestures/recording';
+import type { ProtocolErrorCode } from '../network/protocol';
+import type { Opening } from '../openings/openingBook';
+import type { PuzzleFormatErrorCode } from '../puzzles/puzzles';
+import type { TrackerStats } from '../vision/handTracker';
+
+export type Language = 'es' | 'en';
+
+// Cada idioma se muestra con su propio nombre
+export const LANGUAGE_NAMES: Record<Language, string> = { es: 'Español', en: 'English' };
+
+// Texto con una parte resaltada en medio: [antes, resaltado, después]
+export type Highlighted = [before: string, highlighted: string, after: string];
+
+type SideChoice = 'white' | 'black' | 'random';
+
+// ────────────────────────────────────────────────
+// Español (idioma de referencia: define la forma del catálogo)
+// ────────────────────────────────────────────────
+const ES_COLORS: Record<Color, string> = { w: 'blancas', b: 'negras' };
+const ES_PIECES: Record<PieceSymbol, string> = { p: 'Peón', n: 'Caballo', b: 'Alfil', r: 'Torre', q: 'Dama', k: 'Rey' };
+const ES_CORNERS = ['superior izquierda', 'superior derecha', 'inferior derecha', 'inferior izquierda'];
+
+// Las casillas se deletrean para que la voz no las lea como palabras
+const spelledSquare = (square: Square) => `${square[0]} ${square[1]}`;
+
+const es = {
+  speechLang: 'es-ES',
+
+  colors: ES_COLORS,
+  pieces: ES_PIECES,
+  gameModes: { ai: 'Contra la IA', local: 'Dos jugadores (misma cámara)', online: 'En red (otro equipo)' } as Record<GameMode, string>,
+  difficulties: { amateur: 'Amateur', media: 'Media', alta: 'Alta' } as Record<Difficulty, string>,
+  sideChoices: { white: 'Blancas', black: 'Negras', random: 'Aleatorio' } as Record<SideChoice, string>,
+  timeControls: {
+    none: 'Sin reloj',
+    bullet1: 'Bala 1+0',
+    bullet2: 'Bala 2+1',
+    blitz3: 'Blitz 3+2',
+    blitz5: 'Blitz 5+0',
+    blitz5d: 'Blitz 5 min, demora 3 s',
+    rapid10: 'Rápida 10+5',
+    rapid15: 'Rápida 15+10',
+  } as Record<TimeControlId, string>,
+  handAssignments: {
+    handedness: 'Por mano (derecha: blancas, izquierda: negras)',
+    half: 'Por mitad de la imagen (izquierda: blancas, derecha: negras)',
+  } as Record<HandAssignment, string>,
+  inputModes: { pinch: 'Pellizcar y arrastrar', dwell: 'Mantener el cursor (sin pellizco)' } as Record<InputMode, string>,
+  gestures: {
+    'open-palm': 'Palma abierta',
+    'thumbs-up': 'Pulgar arriba',
+    victory: 'Victoria (V)',
+    swipe: 'Barrido lateral con la palma',
+    'two-palms': 'Dos palmas abiertas',
+  } as Record<CommandGesture, string>,
+  commands: {
+    none: 'Nada',
+    'cancel-drag': 'Cancelar arrastre',
+    confirm: 'Confirmar',
+    undo: 'Deshacer jugada',
+    resign: 'Rendirse',
+    'offer-draw': 'Ofrecer tablas',
+    'new-game': 'Nueva partida',
+    'flip-board': 'Girar tablero',
+  } as Record<GestureCommand, string>,
+  moveClasses: {
+    best: 'Mejor jugada',
+    good: 'Buena',
+    inaccuracy: 'Imprecisión',
+    mistake: 'Error',
+    blunder: 'Error grave',
+  } as Record<MoveClass, string>,
+
+  // Jugadores en las cabeceras PGN y en el marcador
+  playerName: 'Jugador',
+  localPlayerNames: { w: 'Jugador 1', b: 'Jugador 2' } as Record<Color, string>,
+  onlineOpponentName: 'Rival en red',
+
+  // Anuncio hablado de una jugada: "Blancas: caballo de g 1 a f 3, jaque"
+  moveAnnouncement: (move: Move, check: boolean, mate: boolean): string => {
+    const piece = ES_PIECES[move.piece].toLowerCase();
+    const action = move.isKingsideCastle() ? 'enroque corto'
+      : move.isQueensideCastle() ? 'enroque largo'
+        : move.captured
+          ? `${piece} de ${spelledSquare(move.from)} captura ${ES_PIECES[move.captured].toLowerCase()} en ${spelledSquare(move.to)}${move.isEnPassant() ? ' al paso' : ''}`
+          : `${piece} de ${spelledSquare(move.from)} a ${spelledSquare(move.to)}`;
+    const promotion = move.promotion ? `, corona ${ES_PIECES[move.promotion].toLowerCase()}` : '';
+    return `${move.color === 'w' ? 'Blancas' : 'Negras'}: ${action}${promotion}${mate ? ', jaque mate' : check ? ', jaque' : ''}`;
+  },
+
+  // ── Idioma y voz
+  languageLabel: 'Idioma',
+  speakMoves: 'Anunciar en voz alta las jugadas, el jaque y el final',
+  speechUnavailable: 'Este navegador no tiene síntesis de voz',
+
+  // ── Resultado y estado de la partida
+  appTitle: 'Ajedrez Mágico con Cámara',
+  timeForfeitWin: (loser: Color, winner: Color) => `¡Se acabó el tiempo de las ${ES_COLORS[loser]}! Ganan las ${ES_COLORS[winner]}`,
+  timeForfeitDraw: (loser: Color) => `Se acabó el tiempo de las ${ES_COLORS[loser]} - tablas: el rival no puede dar mate`,
+  resignation: (name: string, winner: Color) => `${name} se rinde: ganan las ${ES_COLORS[winner]}`,
+  drawAgreed: 'Tablas de mutuo acuerdo',
+  opponentResigned: '¡El rival se ha rendido! Has ganado',
+  youResigned: 'Te has rendido',
+  checkmate: '¡Jaque Mate!',
+  draw: 'Tablas',
+  check: '¡Jaque!',
+  aiThinking: 'La IA está pensando...',
+  reviewingMove: (ply: number, total: number) => `Revisando la jugada ${ply} de ${total}`,
+
+  // ── Motivos para no poder mover
+  lockViewingPast: 'Vuelve a la posición actual para mover',
+  lockNoRoom: 'Crea una sala o únete a una para jugar',
+  lockGameOver: 'La partida ha terminado',
+  lockClockPress: 'Pulsa el reloj para confirmar la jugada',
+  waitYourTurn: 'Espera tu turno',
+
+  // ── Jugadas
+  invalidMove: 'Movimiento inválido',
+  moveDone: '¡Movimiento hecho!',
+  goodMove: '¡Buen movimiento!',
+  moveError: 'Error en movimiento',
+  aiMoved: 'IA movió... tu turno',
+  engineFailed: 'El motor no respondió - pulsa Reintentar',
+  retryEngine: 'Reintentar',
+  clockPressed: 'Reloj pulsado',
+  choosePromotion: 'Elige la pieza de promoción',
+  promotionCancelled: 'Promoción cancelada',
+  moveUndone: 'Jugada deshecha',
+
+  // ── Partidas nuevas, cargadas y guardadas
+  newGameAs: (color: Color) => `¡Nueva partida! Juegas con ${ES_COLORS[color]}`,
+  newTwoPlayerGame: '¡Nueva partida a dos! Empiezan las blancas',
+  newOnlineGame: 'Partida en red: crea una sala o únete a una',
+  importWhileOnline: 'No se puede cargar una partida mientras juegas en red',
+  importFailed: 'No se pudo cargar la partida',
+  twoPlayerGameLoaded: 'Partida a dos cargada',
+  gameLoadedAs: (color: Color) => `Partida cargada - juegas con ${ES_COLORS[color]}`,
+  openFailed: 'No se pudo abrir la partida',
+  gameOpened: 'Partida abierta',
+  gameResumed: 'Partida retomada',
+  replayingGame: 'Reproduciendo la partida...',
+  resumeOffer: (date: string, moves: number) => `Tienes una partida sin terminar del ${date} (${moves} movimientos).`,
+  continueGame: 'Continuar partida',
+  notNow: 'Ahora no',
+
+  // ── Análisis
+  analyzingGame: 'Analizando la partida...',
+  analysisDone: 'Análisis terminado',
+  analysisFailed: 'No se pudo analizar la partida',
+  analysisCancelled: 'Análisis cancelado',
+
+  // ── Problemas
+  puzzleStart: (number: number, color: Color) => `Problema ${number}: juegan las ${ES_COLORS[color]}`,
+  puzzleWrong: (san: string) => `${san} no es la solución - prueba otra jugada`,
+  puzzleSolved: (san: string) => `¡Problema resuelto! ${san}`,
+  puzzleCorrect: (san: string) => `¡Correcto! ${san}`,
+  puzzleReply: (san: string) => `El rival responde ${san} - te toca`,
+  puzzlesLoadFailed: 'No se pudieron cargar los problemas',
+
+  // ── Partida en red
+  roomSyncFailed: 'No se pudo sincronizar con la sala',
+  roomJoined: (room: string, color: Color) => `Sala ${room} - juegas con ${ES_COLORS[color]}`,
+  opponentConnected: 'El rival se ha conectado',
+  opponentDisconnected: 'El rival se ha desconectado',
+  opponentMoved: 'El rival movió... tu turno',
+  opponentOffersDraw: 'El rival ofrece tablas',
+  drawDeclined: 'El rival ha rechazado las tablas',
+  roomSynced: 'Partida sincronizada con la sala',
+  serverError: (message: string) => `Servidor: ${message}`,
+  connectionLost: 'Se perdió la conexión con el servidor',
+  connectFailed: 'No se pudo conectar con el servidor',
+  drawOffered: 'Tablas ofrecidas',
+  leftRoom: 'Has salido de la sala',
+
+  // ── Cámara, calibración y grabaciones
+  waitingForHands: 'Esperando detección de manos...',
+  modelLoaded: (gpu: boolean): string => gpu
+    ? '¡Modelo cargado! Pellizca una pieza para arrastrarla'
+    : '¡Modelo cargado (CPU)! Pellizca una pieza para arrastrarla',
+  modelFailed: 'No se pudo cargar el modelo de manos - modo solo ratón',
+  cameraUnavailableMouseOnly: 'Cámara no disponible - modo solo ratón',
+  trackerStats: ({ fps, latencyMs, inferenceMs }: TrackerStats) =>
+    `${Math.round(fps)} FPS · latencia ${Math.round(latencyMs)} ms · modelo ${Math.round(inferenceMs)} ms`,
+  calibrationInvalid: 'Calibración no válida: las esquinas deben formar un cuadrilátero. Empieza de nuevo',
+  calibrationSaved: '¡Calibración guardada!',
+  calibrationReset: 'Calibración restablecida: se usa toda la cámara',
+  arSurfaceSaved: '¡Superficie AR guardada!',
+  arSurfaceReset: 'La vista AR se dibuja sobre la región de las manos',
+  calibrationCorner: (index: number) => `Apunta a la esquina ${ES_CORNERS[index]} y pellizca (${index + 1}/4)`,
+  recordingSaved: (frames: number) => `Grabación guardada (${frames} fotogramas)`,
+  recordingStarted: 'Grabando gestos...',
+  replayingFile: (name: string) => `Reproduciendo ${name}...`,
+  recordingLoadFailed: 'No se pudo cargar la grabación',
+  replayFinished: 'Reproducción terminada',
+  replayStopped: 'Reproducción detenida',
+
+  // ── Gestos: mensajes de cada mano
+  sideMessage: (side: Color, text: string) => `[${ES_COLORS[side]}] ${text}`,
+  dwellPick: (square: Square | null) => `Elegir ${square}`,
+  dwellDrop: (square: Square | null) => `Soltar ${square}`,
+  dwellMoveTo: (square: Square | null) => `Mover a ${square}`,
+  dwellPromote: (piece: PieceSymbol) => `Coronar: ${ES_PIECES[piece]}`,
+  promoted: (piece: PieceSymbol) => `¡Coronado! ${ES_PIECES[piece]}`,
+  promotionInvalid: 'Promoción inválida',
+  pointAtPromotion: 'Apunta a la pieza de promoción',
+  promotionHint: (piece: PieceSymbol, dwell: boolean) => `${ES_PIECES[piece]} - ${dwell ? 'Mantén el cursor para coronar' : 'Pellizca para coronar'}`,
+  draggingFrom: (square: Square) => `Arrastrando desde ${square}`,
+  draggingTo: (from: Square, to: Square) => `Arrastrando: ${from} → ${to}`,
+  emptySquare: 'No hay pieza en esta casilla',
+  notYourPiece: (side: Color) => `Esa pieza no es tuya - mueves ${ES_COLORS[side]}`,
+  promotionPrompt: 'Coronación: apunta a una pieza y pellizca',
+  moved: (from: Square, to: Square) => `¡Movido! ${from} → ${to}`,
+  invalidMoveFromTo: (from: Square, to: Square) => `Movimiento inválido: ${from} → ${to}`,
+  droppedSameSquare: 'Pieza soltada en la misma casilla',
+  droppedOffBoard: 'Pieza soltada fuera del tablero',
+  dragLost: 'Arrastre cancelado - mano perdida',
+  pointAtBoard: 'Apunta al tablero',
+  pointingPiece: (piece: PieceSymbol, square: Square, dwell: boolean) =>
+    `${ES_PIECES[piece]} en ${square} - ${dwell ? 'Mantén el cursor para elegirla' : 'Pellizca para mover'}`,
+  pointingSquare: (square: Square) => `Casilla ${square}`,
+  noHand: 'No se detecta mano',
+
+  // ── Gestos de orden
+  noPieceHeld: 'No hay ninguna pieza agarrada',
+  dragCancelled: 'Arrastre cancelado',
+  drawAccepted: 'Tablas aceptadas',
+  nothingToConfirm: 'No hay nada que confirmar',
+  cannotUndo: 'Ahora no se puede deshacer',
+  noGameInProgress: 'No hay ninguna partida en juego',
+  resignConfirmed: 'Abandono confirmado',
+  cannotOfferDraw: 'Ahora no se pueden ofrecer tablas',
+  drawOnlyOnline: 'Las tablas solo se ofrecen en partidas en red',
+  leaveRoomFirst: 'Sal de la sala para empezar otra partida',
+  boardFlipped: 'Tablero girado',
+
+  // ── Tablero real
+  boardModeOn: 'Tablero real: coloca la posición actual, haz tu jugada y aparta la mano',
+  boardModeOff: 'Juegas de nuevo con gestos',
+  physicalMoveRecognized: (san: string) => `Jugada reconocida en el tablero real: ${san}`,
+  physicalInSync: (san: string) => `Tablero real al día (${san})`,
+  physicalDo: (san: string, from: Square, to: Square) => `Haz en el tablero real ${san}: ${from} → ${to}`,
+  physicalWait: 'Espera tu turno y deja el tablero real como estaba',
+  physicalRecognized: (san: string) => `Jugada reconocida: ${san}`,
+  physicalAmbiguous: 'No está clara la jugada: confírmala',
+  physicalUnknown: 'No se reconoce la jugada: revisa el tablero real o la calibración',
+  physicalRetry: 'Deja el tablero real como estaba y repite la jugada',
+
+  // ── Panel de controles
+  gameModeLabel: 'Modo de juego',
+  timeControlLabel: 'Control de tiempo',
+  pressToConfirmLabel: 'Confirmar cada jugada pulsando el reloj',
+  handAssignmentLabel: 'Reparto de manos',
+  difficultyLabel: 'Dificultad IA',
+  bookMovesLabel: 'Abrir con jugadas del libro (niveles Amateur y Media)',
+  yourColorLabel: 'Tu color',
+  newGameButton: 'Nueva Partida',
+  flipBoardButton: 'Girar Tablero',
+  resignButton: 'Rendirse',
+
+  // ── Panel de la cámara
+  cameraTitle: 'Cámara – Gestos',
+  cameraUnavailable: 'Cámara no disponible',
+  retryCamera: 'Reintentar cámara',
+  instructionsTitle: 'Instrucciones de Movimiento:',
+  mouseOnlyInstructions: ['Modo solo ratón: ', 'arrastra', ' tus piezas con el ratón sobre el tablero'] as Highlighted,
+  twoPlayerHands: (assignment: string) => `Dos jugadores, una mano cada uno - ${assignment.toLowerCase()}`,
+  gestureSteps: [
+    ['1. ', 'Apunta', ' con el dedo a una de tus piezas'],
+    ['2. ', 'Pellizca', ' (une índice y pulgar) para agarrarla'],
+    ['3. ', 'Arrastra', ' manteniendo el pellizco'],
+    ['4. ', 'Suelta', ' el pellizco para soltar la pieza'],
+  ] as Highlighted[],
+  clockGestureStep: ['5. ', 'Pellizca fuera del tablero', ' para pulsar el reloj'] as Highlighted,
+  cancelCalibration: 'Cancelar calibración',
+  calibrateCamera: 'Calibrar cámara',
+  useWholeCamera: 'Usar toda la cámara',
+  arViewLabel: 'Vista AR: dibujar la partida sobre la superficie calibrada',
+  calibrateArSurface: 'Calibrar superficie AR',
+  useHandRegionForAr: 'Usar la región de las manos',
+  hintLabel: 'Mostrar la jugada sugerida por el motor',
+  boardModeLabel: 'Tablero real: reconocer las jugadas hechas en un tablero de verdad',
+  boardModeHelp: (firstSquare: Square) =>
+    `Calibra marcando las esquinas del tablero real, empezando por la casilla ${firstSquare}. Haz tu jugada y aparta la mano para que se reconozca.`,
+  physicalPending: (san: string, from: Square, to: Square) => `Haz en el tablero real: ${san} (${from} → ${to})`,
+  whichMove: '¿Qué jugada has hecho?',
+  noneOfThem: 'Ninguna',
+  stopAndSave: 'Detener y guardar',
+  recordGestures: 'Grabar gestos',
+  stopReplay: 'Detener reproducción',
+  playRecording: 'Reproducir grabación',
+  inputModeLabel: 'Selección con la mano',
+  dwellTimeLabel: 'Tiempo',
+
+  // ── Barra de estado
+  movesLabel: 'Movimientos',
+  openingLabel: 'Apertura',
+  openingName: (opening: Opening) => opening.nameEs ?? opening.name,
+  turnLabel: 'Turno',
+  turnYou: (color: Color) => `Tú (${ES_COLORS[color]})`,
+  turnOpponent: (color: Color) => `Rival (${ES_COLORS[color]})`,
+  turnAi: (color: Color, thinking: boolean) => `IA (${ES_COLORS[color]})${thinking ? ' pensando...' : ''}`,
+  turnLocal: (name: string, color: Color) => `${name} (${ES_COLORS[color]})`,
+  stateLabel: 'Estado',
+  draggingPiece: 'Arrastrando pieza',
+  readyToMove: 'Listo para mover',
+  originLabel: 'Origen',
+
+  // ── Títulos de las secciones
+  movesTitle: 'Jugadas',
+  undoMove: 'Deshacer jugada',
+  pgnTitle: 'PGN / FEN',
+  explorerTitle: 'Explorador de aperturas',
+  analysisTitle: 'Análisis',
+  puzzlesTitle: 'Entrenamiento con problemas',
+  libraryTitle: 'Mis partidas',
+
+  // ────────────────────────────────────────────────
+  // Componentes
+  // ────────────────────────────────────────────────
+  analysis: {
+    intro: 'El motor repasa cada posición, marca los errores y propone la mejor jugada con una flecha.',
+    unavailable: 'El análisis estará disponible cuando termine la partida.',
+    analyze: 'Analizar partida',
+    progress: (done: number, total: number) => `Analizando posición ${done} de ${total}...`,
+    cancel: 'Cancelar',
+    accuracy: 'precisión',
+    showPosition: 'Ver la posición y la mejor jugada',
+    clean: 'Ningún error: ¡partida limpia!',
+  },
+  clock: {
+    press: 'Pulsar el reloj',
+    pressToConfirm: 'Pulsa el reloj para confirmar',
+  },
+  evalBar: {
+    title: 'Valoración del motor',
+  },
+  library: {
+    empty: 'Todavía no hay partidas guardadas',
+    describe: (mode: GameMode, color: Color, moves: number, result: string) => {
+      const side = mode === 'local' ? 'a dos' : `${mode === 'ai' ? 'contra la IA' : 'en red'}, con ${ES_COLORS[color]}`;
+      return `${side} · ${moves} ${moves === 1 ? 'jugada' : 'jugadas'} · ${result === '*' ? 'sin terminar' : result}`;
+    },
+    open: 'Abrir',
+    replay: 'Ver',
+    export: 'PGN',
+    delete: 'Borrar',
+  },
+  bindings: {
+    title: 'Gestos de orden',
+    help: 'Mantén el gesto hasta que se complete el anillo del cursor.',
+    twoPalmsUnavailable: 'Repartiendo las manos por lateralidad cada jugador tiene una sola mano: las dos palmas no se reconocen.',
+  },
+  cursor: {
+    pieceHeld: 'Pieza agarrada ✓',
+  },
+  moveList: {
+    empty: 'Aún no hay jugadas',
+    first: 'Inicio',
+    previous: 'Anterior',
+    next: 'Siguiente',
+    current: 'Posición actual',
+  },
+  network: {
+    server: 'Servidor',
+    createRoom: 'Crear sala',
+    roomCode: 'Código de sala',
+    join: 'Unirse',
+    connecting: 'Conectando...',
+    room: 'Sala',
+    opponentConnected: 'Rival conectado',
+    waitingForOpponent: 'Esperando al rival... comparte el código de la sala',
+    opponentOffersDraw: 'El rival ofrece tablas',
+    accept: 'Aceptar',
+    decline: 'Rechazar',
+    drawOffered: 'Tablas ofrecidas',
+    offerDraw: 'Ofrecer tablas',
+    resign: 'Rendirse',
+    resync: 'Resincronizar',
+    leave: 'Salir de la sala',
+  },
+  pgn: {
+    loaded: 'Partida cargada',
+    fenCopied: 'FEN copiada al portapapeles',
+    copyFailed: 'No se pudo copiar: la FEN está en el cuadro de texto',
+    exportPgn: 'Exportar PGN',
+    copyFen: 'Copiar FEN',
+    placeholder: 'Pega aquí un PGN o una FEN',
+    load: 'Cargar PGN / FEN',
+  },
+  promotion: {
+    title: 'Elige la pieza de promoción',
+    cancel: 'Cancelar',
+  },
+  puzzles: {
+    status: {
+      solving: 'Encuentra la mejor jugada',
+      failed: 'Fallado: puedes seguir intentándolo o pasar al siguiente',
+      solved: '¡Resuelto!',
+    } as Record<PuzzleStatus, string>,
+    load: 'Cargar problemas (EPD o CSV)',
+    exit: 'Salir del entrenamiento',
+    formats: 'EPD con pv o bm y temas en c0, o CSV con el formato de Lichess',
+    position: (set: string, number: number, total: number) => `${set} · problema ${number} de ${total}`,
+    toMove: (color: Color) => `Juegan las ${ES_COLORS[color]}`,
+    showMove: 'Ver la jugada',
+    retry: 'Repetir',
+    next: 'Siguiente',
+    skipped: (lines: number) => `Se omitieron ${lines} líneas que no se pudieron leer`,
+    solvedFirstTry: 'resueltos a la primera',
+    streak: 'racha actual',
+    bestStreak: 'mejor racha',
+    theme: 'Tema',
+    attempts: 'Intentos',
+    successRate: 'Acierto',
+    clearProgress: 'Borrar el progreso',
+  },
+  explorer: {
+    unnamed: 'Posición sin nombre en el libro',
+    outOfBook: 'Fuera del libro: no hay continuaciones para esta posición',
+    play: (san: string) => `Jugar ${san}`,
+    move: 'Jugada',
+    bookLines: 'Líneas del libro',
+    bookLinesHelp: 'Líneas del libro: aperturas con nombre que siguen cada jugada (no es la frecuencia en partidas reales)',
+  },
+  // Errores con código (ver i18n/errors.ts); cada texto recibe el dato concreto del error, que puede estar vacío
+  errors: {
+    record: {
+      empty: () => 'No hay nada que cargar',
+      'invalid-record': () => 'No es una FEN ni un PGN válido',
+      'room-illegal-move': (move: string) => `Jugada ilegal en la sala: ${move}`,
+      'room-mismatch': () => 'La posición de la sala no coincide con sus jugadas',
+    } as Record<GameRecordErrorCode, (detail: string) => string>,
+    puzzle: {
+      'no-solution': () => 'El problema no tiene solución',
+      'missing-fields': () => 'Faltan campos de la posición',
+      'missing-solution': () => 'Falta la solución (pv o bm)',
+      'empty-file': () => 'El archivo está vacío',
+      'no-puzzles': () => 'No se encontró ningún problema válido en el archivo',
+    } as Record<PuzzleFormatErrorCode, (detail: string) => string>,
+    recording: {
+      'invalid-json': () => 'La grabación no es un JSON válido',
+      'unsupported-version': (version: string) => `Versión de grabación no soportada: ${version}`,
+      'missing-fields': () => 'A la grabación le faltan "meta" o "frames"',
+      'invalid-calibration': () => 'La calibración de la grabación no es válida',
+    } as Record<RecordingFormatErrorCode, (detail: string) => string>,
+    protocol: {
+      'invalid-json': () => 'El mensaje no es un JSON válido',
+      'missing-type': () => 'Al mensaje le falta el campo "type"',
+      'invalid-url': (url: string) => `Dirección de servidor no válida: ${url}`,
+      'connect-failed': (url: string) => `No se pudo conectar con ${url}`,
+      'already-in-room': () => 'Ya estás en una sala',
+      'room-not-found': (room: string) => `No existe la sala ${room}`,
+      'room-full': () => 'La sala está completa',
+      'not-in-room': () => 'Primero crea una sala o únete a una',
+      'game-over': () => 'La partida ha terminado',
+      'illegal-move': () => 'Jugada ilegal',
+      'unknown-message': (type: string) => `Mensaje desconocido: ${type}`,
+      internal: () => 'Error interno del servidor',
+    } as Record<ProtocolErrorCode, (detail: string) => string>,
+  },
+};
+
+export type Messages = typeof es;
+
+// ────────────────────────────────────────────────
+// English
+// ────────────────────────────────────────────────
+const EN_COLORS: Record<Color, string> = { w: 'White', b: 'Black' };
+const EN_PIECES: Record<PieceSymbol, string> = { p: 'Pawn', n: 'Knight', b: 'Bishop', r: 'Rook', q: 'Queen', k: 'King' };
+const EN_CORNERS = ['top left', 'top right', 'bottom right', 'bottom left'];
+
+const en: Messages = {
+  speechLang: 'en-US',
+
+  colors: EN_COLORS,
+  pieces: EN_PIECES,
+  gameModes: { ai: 'Against the AI', local: 'Two players (same camera)', online: 'Online (another device)' },
+  difficulties: { amateur: 'Beginner', media: 'Intermediate', alta: 'Strong' },
+  sideChoices: { white: 'White', black: 'Black', random: 'Random' },
+  timeControls: {
+    none: 'No clock',
+    bullet1: 'Bullet 1+0',
+    bullet2: 'Bullet 2+1',
+    blitz3: 'Blitz 3+2',
+    blitz5: 'Blitz 5+0',
+    blitz5d: 'Blitz 5 min, 3 s delay',
+    rapid10: 'Rapid 10+5',
+    rapid15: 'Rapid 15+10',
+  },
+  handAssignments: {
+    handedness: 'By hand (right: White, left: Black)',
+    half: 'By half of the image (left: White, right: Black)',
+  },
+  inputModes: { pinch: 'Pinch and drag', dwell: 'Hold the cursor still (no pinch)' },
+  gestures: {
+    'open-palm': 'Open palm',
+    'thumbs-up': 'Thumbs up',
+    victory: 'Victory (V)',
+    swipe: 'Sideways palm swipe',
+    'two-palms': 'Two open palms',
+  },
+  commands: {
+    none: 'Nothing',
+    'cancel-drag': 'Cancel drag',
+    confirm: 'Confirm',
+    undo: 'Undo move',
+    resign: 'Resign',
+    'offer-draw': 'Offer a draw',
+    'new-game': 'New game',
+    'flip-board': 'Flip board',
+  },
+  moveClasses: {
+    best: 'Best move',
+    good: 'Good',
+    inaccuracy: 'Inaccuracy',
+    mistake: 'Mistake',
+    blunder: 'Blunder',
+  },
+
+  playerName: 'Player',
+  localPlayerNames: { w: 'Player 1', b: 'Player 2' },
+  onlineOpponentName: 'Online opponent',
+
+  moveAnnouncement: (move, check, mate) => {
+    const piece = EN_PIECES[move.piece].toLowerCase();
+    const action = move.isKingsideCastle() ? 'castles kingside'
+      : move.isQueensideCastle() ? 'castles queenside'
+        : move.captured
+          ? `${piece} from ${spelledSquare(move.from)} takes ${EN_PIECES[move.captured].toLowerCase()} on ${spelledSquare(move.to)}${move.isEnPassant() ? ' en passant' : ''}`
+          : `${piece} from ${spelledSquare(move.from)} to ${spelledSquare(move.to)}`;
+    const promotion = move.promotion ? `, promotes to ${EN_PIECES[move.promotion].toLowerCase()}` : '';
+    return `${EN_COLORS[move.color]}: ${action}${promotion}${mate ? ', checkmate' : check ? ', check' : ''}`;
+  },
+
+  languageLabel: 'Language',
+  speakMoves: 'Announce moves, check and the game result aloud',
+  speechUnavailable: 'This browser has no speech synthesis',
+
+  appTitle: 'Magic Camera Chess',
+  timeForfeitWin: (loser, winner) => `${EN_COLORS[loser]} ran out of time! ${EN_COLORS[winner]} wins`,
+  timeForfeitDraw: (loser) => `${EN_COLORS[loser]} ran out of time - draw: the opponent cannot checkmate`,
+  resignation: (name, winner) => `${name} resigns: ${EN_COLORS[winner]} wins`,
+  drawAgreed: 'Draw by agreement',
+  opponentResigned: 'Your opponent resigned! You win',
+  youResigned: 'You resigned',
+  checkmate: 'Checkmate!',
+  draw: 'Draw',
+  check: 'Check!',
+  aiThinking: 'The AI is thinking...',
+  reviewingMove: (ply, total) => `Reviewing move ${ply} of ${total}`,
+
+  lockViewingPast: 'Go back to the current position to move',
+  lockNoRoom: 'Create or join a room to play',
+  lockGameOver: 'The game is over',
+  lockClockPress: 'Press the clock to confirm your move',
+  waitYourTurn: 'Wait for your turn',
+
+  invalidMove: 'Illegal move',
+  moveDone: 'Move played!',
+  goodMove: 'Nice move!',
+  moveError: 'Move error',
+  aiMoved: 'The AI moved... your turn',
+  engineFailed: 'The engine did not respond - press Retry',
+  retryEngine: 'Retry',
+  clockPressed: 'Clock pressed',
+  choosePromotion: 'Choose the promotion piece',
+  promotionCancelled: 'Promotion cancelled',
+  moveUndone: 'Move undone',
+
+  newGameAs: (color) => `New game! You play ${EN_COLORS[color]}`,
+  newTwoPlayerGame: 'New two-player game! White starts',
+  newOnlineGame: 'Online game: create a room or join one',
+  importWhileOnline: 'You cannot load a game while playing online',
+  importFailed: 'The game could not be loaded',
+  twoPlayerGameLoaded: 'Two-player game loaded',
+  gameLoadedAs: (color) => `Game loaded - you play ${EN_COLORS[color]}`,
+  openFailed: 'The game could not be opened',
+  gameOpened: 'Game opened',
+  gameResumed: 'Game resumed',
+  replayingGame: 'Replaying the game...',
+  resumeOffer: (date, moves) => `You have an unfinished game from ${date} (${moves} moves).`,
+  continueGame: 'Continue game',
+  notNow: 'Not now',
+
+  analyzingGame: 'Analysing the game...',
+  analysisDone: 'Analysis finished',
+  analysisFailed: 'The game could not be analysed',
+  analysisCancelled: 'Analysis cancelled',
+
+  puzzleStart: (number, color) => `Puzzle ${number}: ${EN_COLORS[color]} to move`,
+  puzzleWrong: (san) => `${san} is not the solution - try another move`,
+  puzzleSolved: (san) => `Puzzle solved! ${san}`,
+  puzzleCorrect: (san) => `Correct! ${san}`,
+  puzzleReply: (san) => `The opponent replies ${san} - your move`,
+  puzzlesLoadFailed: 'The puzzles could not be loaded',
+
+  roomSyncFailed: 'Could not sync with the room',
+  roomJoined: (room, color) => `Room ${room} - you play ${EN_COLORS[color]}`,
+  opponentConnected: 'Your opponent has connected',
+  opponentDisconnected: 'Your opponent has disconnected',
+  opponentMoved: 'Your opponent moved... your turn',
+  opponentOffersDraw: 'Your opponent offers a draw',
+  drawDeclined: 'Your opponent declined the draw',
+  roomSynced: 'Game synced with the room',
+  serverError: (message) => `Server: ${message}`,
+  connectionLost: 'Lost the connection to the server',
+  connectFailed: 'Could not connect to the server',
+  drawOffered: 'Draw offered',
+  leftRoom: 'You left the room',
+
+  waitingForHands: 'Waiting for hand detection...',
+  modelLoaded: (gpu) => gpu
+    ? 'Model loaded! Pinch a piece to drag it'
+    : 'Model loaded (CPU)! Pinch a piece to drag it',
+  modelFailed: 'The hand model could not be loaded - mouse-only mode',
+  cameraUnavailableMouseOnly: 'Camera unavailable - mouse-only mode',
+  trackerStats: ({ fps, latencyMs, inferenceMs }) =>
+    `${Math.round(fps)} FPS · latency ${Math.round(latencyMs)} ms · model ${Math.round(inferenceMs)} ms`,
+  calibrationInvalid: 'Invalid calibration: the corners must form a quadrilateral. Start again',
+  calibrationSaved: 'Calibration saved!',
+  calibrationReset: 'Calibration reset: the whole camera is used',
+  arSurfaceSaved: 'AR surface saved!',
+  arSurfaceReset: 'The AR view is drawn on the hand region',
+  calibrationCorner: (index) => `Point at the ${EN_CORNERS[index]} corner and pinch (${index + 1}/4)`,
+  recordingSaved: (frames) => `Recording saved (${frames} frames)`,
+  recordingStarted: 'Recording gestures...',
+  replayingFile: (name) => `Replaying ${name}...`,
+  recordingLoadFailed: 'The recording could not be loaded',
+  replayFinished: 'Replay finished',
+  replayStopped: 'Replay stopped',
+
+  sideMessage: (side, text) => `[${EN_COLORS[side]}] ${text}`,
+  dwellPick: (square) => `Pick ${square}`,
+  dwellDrop: (square) => `Drop ${square}`,
+  dwellMoveTo: (square) => `Move to ${square}`,
+  dwellPromote: (piece) => `Promote: ${EN_PIECES[piece]}`,
+  promoted: (piece) => `Promoted! ${EN_PIECES[piece]}`,
+  promotionInvalid: 'Invalid promotion',
+  pointAtPromotion: 'Point at the promotion piece',
+  promotionHint: (piece, dwell) => `${EN_PIECES[piece]} - ${dwell ? 'Hold the cursor to promote' : 'Pinch to promote'}`,
+  draggingFrom: (square) => `Dragging from ${square}`,
+  draggingTo: (from, to) => `Dragging: ${from} → ${to}`,
+  emptySquare: 'There is no piece on this square',
+  notYourPiece: (side) => `That piece is not yours - you play ${EN_COLORS[side]}`,
+  promotionPrompt: 'Promotion: point at a piece and pinch',
+  moved: (from, to) => `Moved! ${from} → ${to}`,
+  invalidMoveFromTo: (from, to) => `Illegal move: ${from} → ${to}`,
+  droppedSameSquare: 'Piece dropped on the same square',
+  droppedOffBoard: 'Piece dropped off the board',
+  dragLost: 'Drag cancelled - hand lost',
+  pointAtBoard: 'Point at the board',
+  pointingPiece: (piece, square, dwell) =>
+    `${EN_PIECES[piece]} on ${square} - ${dwell ? 'Hold the cursor to pick it' : 'Pinch to move'}`,
+  pointingSquare: (square) => `Square ${square}`,
+  noHand: 'No hand detected',
+
+  noPieceHeld: 'No piece is being held',
+  dragCancelled: 'Drag cancelled',
+  drawAccepted: 'Draw accepted',
+  nothingToConfirm: 'Nothing to confirm',
+  cannotUndo: 'You cannot undo right now',
+  noGameInProgress: 'There is no game in progress',
+  resignConfirmed: 'Resignation confirmed',
+  cannotOfferDraw: 'You cannot offer a draw right now',
+  drawOnlyOnline: 'Draws can only be offered in online games',
+  leaveRoomFirst: 'Leave the room to start another game',
+  boardFlipped: 'Board flipped',
+
+  boardModeOn: 'Real board: set up the current position, make your move and move your hand away',
+  boardModeOff: 'Back to playing with gestures',
+  physicalMoveRecognized: (san) => `Move recognised on the real board: ${san}`,
+  physicalInSync: (san) => `Real board up to date (${san})`,
+  physicalDo: (san, from, to) => `Play ${san} on the real board: ${from} → ${to}`,
+  physicalWait: 'Wait for your turn and put the real board back as it was',
+  physicalRecognized: (san) => `Move recognised: ${san}`,
+  physicalAmbiguous: 'The move is unclear: please confirm it',
+  physicalUnknown: 'Move not recognised: check the real board or the calibration',
+  physicalRetry: 'Put the real board back as it was and play the move again',
+
+  gameModeLabel: 'Game mode',
+  timeControlLabel: 'Time control',
+  pressToConfirmLabel: 'Confirm each move by pressing the clock',
+  handAssignmentLabel: 'Hand assignment',
+  difficultyLabel: 'AI difficulty',
+  bookMovesLabel: 'Open with book moves (Beginner and Intermediate levels)',
+  yourColorLabel: 'Your colour',
+  newGameButton: 'New Game',
+  flipBoardButton: 'Flip Board',
+  resignButton: 'Resign',
+
+  cameraTitle: 'Camera – Gestures',
+  cameraUnavailable: 'Camera unavailable',
+  retryCamera: 'Retry camera',
+  instructionsTitle: 'How to move:',
+  mouseOnlyInstructions: ['Mouse-only mode: ', 'drag', ' your pieces on the board with the mouse'],
+  twoPlayerHands: (assignment) => `Two players, one hand each - ${assignment.toLowerCase()}`,
+  gestureSteps: [
+    ['1. ', 'Point', ' at one of your pieces with your finger'],
+    ['2. ', 'Pinch', ' (touch index finger and thumb) to grab it'],
+    ['3. ', 'Drag', ' while keeping the pinch'],
+    ['4. ', 'Release', ' the pinch to drop the piece'],
+  ],
+  clockGestureStep: ['5. ', 'Pinch outside the board', ' to press the clock'],
+  cancelCalibration: 'Cancel calibration',
+  calibrateCamera: 'Calibrate camera',
+  useWholeCamera: 'Use the whole camera',
+  arViewLabel: 'AR view: draw the game on the calibrated surface',
+  calibrateArSurface: 'Calibrate AR surface',
+  useHandRegionForAr: 'Use the hand region',
+  hintLabel: 'Show the move suggested by the engine',
+  boardModeLabel: 'Real board: recognise moves made on a physical board',
+  boardModeHelp: (firstSquare) =>
+    `Calibrate by marking the corners of the real board, starting at square ${firstSquare}. Make your move and take your hand away so it can be recognised.`,
+  physicalPending: (san, from, to) => `Play on the real board: ${san} (${from} → ${to})`,
+  whichMove: 'Which move did you play?',
+  noneOfThem: 'None',
+  stopAndSave: 'Stop and save',
+  recordGestures: 'Record gestures',
+  stopReplay: 'Stop replay',
+  playRecording: 'Play recording',
+  inputModeLabel: 'Hand selection',
+  dwellTimeLabel: 'Time',
+
+  movesLabel: 'Moves',
+  openingLabel: 'Opening',
+  openingName: (opening) => opening.name,
+  turnLabel: 'Turn',
+  turnYou: (color) => `You (${EN_COLORS[color]})`,
+  turnOpponent: (color) => `Opponent (${EN_COLORS[color]})`,
+  turnAi: (color, thinking) => `AI (${EN_COLORS[color]})${thinking ? ' thinking...' : ''}`,
+  turnLocal: (name, color) => `${name} (${EN_COLORS[color]})`,
+  stateLabel: 'State',
+  draggingPiece: 'Dragging a piece',
+  readyToMove: 'Ready to move',
+  originLabel: 'From',
+
+  movesTitle: 'Moves',
+  undoMove: 'Undo move',
+  pgnTitle: 'PGN / FEN',
+  explorerTitle: 'Opening explorer',
+  analysisTitle: 'Analysis',
+  puzzlesTitle: 'Puzzle training',
+  libraryTitle: 'My games',
+
+  analysis: {
+    intro: 'The engine goes through every position, marks the mistakes and shows the best move with an arrow.',
+    unavailable: 'Analysis will be available when the game is over.',
+    analyze: 'Analyse game',
+    progress: (done, total) => `Analysing position ${done} of ${total}...`,
+    cancel: 'Cancel',
+    accuracy: 'accuracy',
+    showPosition: 'Show the position and the best move',
+    clean: 'No mistakes: a clean game!',
+  },
+  clock: {
+    press: 'Press the clock',
+    pressToConfirm: 'Press the clock to confirm',
+  },
+  evalBar: {
+    title: 'Engine evaluation',
+  },
+  library: {
+    empty: 'No saved games yet',
+    describe: (mode, color, moves, result) => {
+      const side = mode === 'local' ? 'two players' : `${mode === 'ai' ? 'against the AI' : 'online'}, as ${EN_COLORS[color]}`;
+      return `${side} · ${moves} ${moves === 1 ? 'move' : 'moves'} · ${result === '*' ? 'unfinished' : result}`;
+    },
+    open: 'Open',
+    replay: 'Watch',
+    export: 'PGN',
+    delete: 'Delete',
+  },
+  bindings: {
+    title: 'Command gestures',
+    help: 'Hold the gesture until the cursor ring is complete.',
+    twoPalmsUnavailable: 'With hands assigned by handedness each player has only one hand, so two palms are not recognised.',
+  },
+  cursor: {
+    pieceHeld: 'Piece held ✓',
+  },
+  moveList: {
+    empty: 'No moves yet',
+    first: 'Start',
+    previous: 'Previous',
+    next: 'Next',
+    current: 'Current position',
+  },
+  network: {
+    server: 'Server',
+    createRoom: 'Create room',
+    roomCode: 'Room code',
+    join: 'Join',
+    connecting: 'Connecting...',
+    room: 'Room',
+    opponentConnected: 'Opponent connected',
+    waitingForOpponent: 'Waiting for the opponent... share the room code',
+    opponentOffersDraw: 'Your opponent offers a draw',
+    accept: 'Accept',
+    decline: 'Decline',
+    drawOffered: 'Draw offered',
+    offerDraw: 'Offer a draw',
+    resign: 'Resign',
+    resync: 'Resync',
+    leave: 'Leave room',
+  },
+  pgn: {
+    loaded: 'Game loaded',
+    fenCopied: 'FEN copied to the clipboard',
+    copyFailed: 'Could not copy: the FEN is in the text box',
+    exportPgn: 'Export PGN',
+    copyFen: 'Copy FEN',
+    placeholder: 'Paste a PGN or a FEN here',
+    load: 'Load PGN / FEN',
+  },
+  promotion: {
+    title: 'Choose the promotion piece',
+    cancel: 'Cancel',
+  },
+  puzzles: {
+    status: {
+      solving: 'Find the best move',
+      failed: 'Failed: keep trying or go to the next one',
+      solved: 'Solved!',
+    },
+    load: 'Load puzzles (EPD or CSV)',
+    exit: 'Leave training',
+    formats: 'EPD with pv or bm and themes in c0, or CSV in the Lichess format',
+    position: (set, number, total) => `${set} · puzzle ${number} of ${total}`,
+    toMove: (color) => `${EN_COLORS[color]} to move`,
+    showMove: 'Show the move',
+    retry: 'Retry',
+    next: 'Next',
+    skipped: (lines) => `${lines} lines that could not be read were skipped`,
+    solvedFirstTry: 'solved at the first try',
+    streak: 'current streak',
+    bestStreak: 'best streak',
+    theme: 'Theme',
+    attempts: 'Attempts',
+    successRate: 'Success',
+    clearProgress: 'Clear progress',
+  },
+  explorer: {
+    unnamed: 'Position without a name in the book',
+    outOfBook: 'Out of book: no continuations for this position',
+    play: (san) => `Play ${san}`,
+    move: 'Move',
+    bookLines: 'Book lines',
+    bookLinesHelp: 'Book lines: named openings that follow each move (not how often it is played in real games)',
+  },
+  errors: {
+    record: {
+      empty: () => 'There is nothing to load',
+      'invalid-record': () => 'This is neither a valid FEN nor a valid PGN',
+      'room-illegal-move': (move) => `Illegal move in the room: ${move}`,
+      'room-mismatch': () => 'The room position does not match its moves',
+    },
+    puzzle: {
+      'no-solution': () => 'The puzzle has no solution',
+      'missing-fields': () => 'The position is missing fields',
+      'missing-solution': () => 'The solution is missing (pv or bm)',
+      'empty-file': () => 'The file is empty',
+      'no-puzzles': () => 'No valid puzzle was found in the file',
+    },
+    recording: {
+      'invalid-json': () => 'The recording is not valid JSON',
+      'unsupported-version': (version) => `Unsupported recording version: ${version}`,
+      'missing-fields': () => 'The recording is missing "meta" or "frames"',
+      'invalid-calibration': () => 'The recording calibration is not valid',
+    },
+    protocol: {
+      'invalid-json': () => 'The message is not valid JSON',
+      'missing-type': () => 'The message is missing the "type" field',
+      'invalid-url': (url) => `Invalid server address: ${url}`,
+      'connect-failed': (url) => `Could not connect to ${url}`,
+      'already-in-room': () => 'You are already in a room',
+      'room-not-found': (room) => `Room ${room} does not exist`,
+      'room-full': () => 'The room is full',
+      'not-in-room': () => 'Create or join a room first',
+      'game-over': () => 'The game is over',
+      'illegal-move': () => 'Illegal move',
+      'unknown-message': (type) => `Unknown message: ${type}`,
+      internal: () => 'Internal server error',
+    },
+  },
+};
+
+export const MESSAGES: Record<Language, Messages> = { es, en };
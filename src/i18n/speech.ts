@@ -0,0 +1,14 @@
+// Anuncios hablados con la síntesis de voz del navegador
+
+export function speechAvailable(): boolean {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window;
+}
+
+// Un anuncio nuevo interrumpe el anterior: con jugadas rápidas solo importa la última
+export function speak(text: string, lang: string) {
+  if (!speechAvailable() || !text) return;
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = lang;
+  window.speechSynthesis.cancel();
+  window.speechSynthesis.speak(utterance);
+}
@@ -0,0 +1,100 @@
+import type { Color, PieceSymbol, Square } from 'chess.js';
+import type { TimeControlId } from '../clock/chessClock';
+
+// ────────────────────────────────────────────────
+// Protocolo de salas entre la app y el servidor de relevo (server/relay.ts)
+// ────────────────────────────────────────────────
+// El servidor reproduce cada jugada con chess.js y rechaza las ilegales; la
+// posición de la sala la calcula él. Cada cliente vuelve a validar lo que recibe
+// y, si algo no cuadra, pide un `resync` y reconstruye la partida desde la sala.
+// El reloj que decide la partida es el del servidor: los clientes llevan el suyo
+// para mostrarlo y avisan con `flag`, pero la derrota por tiempo solo cuenta si
+// la bandera ha caído también en el servidor.
+
+export const DEFAULT_RELAY_PORT = 8787;
+
+export interface NetworkMove {
+  from: Square;
+  to: Square;
+  promotion?: PieceSymbol;
+}
+
+export interface NetworkResult {
+  winner: Color | null; // null = tablas
+  reason: 'resign' | 'draw-agreed' | 'time';
+}
+
+export interface RoomState {
+  startFen: string;
+  moves: NetworkMove[];
+  fen: string; // posición tras la última jugada
+  result: NetworkResult | null;
+  timeControl: TimeControlId; // lo elige quien crea la sala
+  // ms que le quedan a cada lado al enviar el estado (null = sin reloj). El reloj arranca
+  // con la primera jugada: hasta entonces no corre para nadie
+  clock: Record<Color, number> | null;
+}
+
+export type ClientMessage =
+  | { type: 'create'; color: Color; timeControl: TimeControlId }
+  | { type: 'join'; room: string }
+  // `ply` es el índice de la jugada en la partida (0 = primera)
+  | { type: 'move'; move: NetworkMove; ply: number }
+  | { type: 'resign' }
+  | { type: 'draw-offer' }
+  | { type: 'draw-response'; accept: boolean }
+  // El reloj de quien lo envía ha visto caer la bandera del lado que tiene el turno;
+  // si el del servidor aún no, responde con `state` para corregirlo
+  | { type: 'flag' }
+  | { type: 'resync' };
+
+export type ServerMessage =
+  | { type: 'welcome'; room: string; color: Color; state: RoomState; opponentConnected: boolean }
+  | { type: 'opponent'; connected: boolean }
+  | { type: 'move'; move: NetworkMove; ply: number }
+  | { type: 'draw-offer' }
+  | { type: 'draw-declined' }
+  | { type: 'result'; result: NetworkResult }
+  | { type: 'state'; state: RoomState }
+  | { type: 'error'; code: ProtocolErrorCode; detail: string };
+
+// Errores de la conexión y del relevo; el servidor envía el código, no el texto
+export type ProtocolErrorCode =
+  | 'invalid-json' | 'missing-type' | 'invalid-url' | 'connect-failed'
+  | 'already-in-room' | 'room-not-found' | 'room-full' | 'not-in-room'
+  | 'game-over' | 'illegal-move' | 'unknown-message' | 'internal';
+
+// El texto de cada motivo está en el catálogo de mensajes (errors.protocol en i18n/messages.ts)
+export class ProtocolError extends Error {
+  readonly code: ProtocolErrorCode;
+  readonly detail: string; // dato concreto que completa el texto (puede estar vacío)
+
+  constructor(code: ProtocolErrorCode, detail = '') {
+    super(detail ? `${code}: ${detail}` : code);
+    this.name = 'ProtocolError';
+    this.code = code;
+    this.detail = detail;
+  }
+}
+
+// Solo comprueba la forma básica; el contenido lo valida quien lo recibe
+export function parseMessage<T extends { type: string }>(data: string): T {
+  let message: unknown;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    throw new ProtocolError('invalid-json');
+  }
+  if (typeof message !== 'object' || message === null || typeof (message as { type?: unknown }).type !== 'string') {
+    throw new ProtocolError('missing-type');
+  }
+  return message as T;
+}
+
+// Los códigos de sala se dictan y se escriben a mano: sin 0/O ni 1/I
+export const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export const ROOM_CODE_LENGTH = 5;
+
+export function normalizeRoomCode(code: string): string {
+  return code.trim().toUpperCase();
+}
@@ -0,0 +1,100 @@
+import { Chess } from 'chess.js';
+import { GameRecordError } from '../board/record';
+import { restoreClock, TIME_CONTROLS, type ClockState } from '../clock/chessClock';
+import { DEFAULT_RELAY_PORT, parseMessage, ProtocolError, type ClientMessage, type RoomState, type ServerMessage } from './protocol';
+
+export interface RoomListener {
+  onMessage: (message: ServerMessage) => void;
+  // Conexión cerrada (por el servidor, por la red o con `close()`)
+  onDisconnect: () => void;
+}
+
+// Relevo por defecto: el mismo equipo que sirve la app, en el puerto del relevo
+export function defaultRelayUrl(): string {
+  return import.meta.env.VITE_RELAY_URL ?? `ws://${window.location.hostname || 'localhost'}:${DEFAULT_RELAY_PORT}`;
+}
+
+// ────────────────────────────────────────────────
+// Conexión del navegador con el servidor de relevo
+// ────────────────────────────────────────────────
+export class RoomClient {
+  private socket: WebSocket | null = null;
+  private listener: RoomListener;
+
+  constructor(listener: RoomListener) {
+    this.listener = listener;
+  }
+
+  get connected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  connect(url: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let socket: WebSocket;
+      try {
+        socket = new WebSocket(url);
+      } catch {
+        reject(new ProtocolError('invalid-url', url));
+        return;
+      }
+      this.socket = socket;
+      let opened = false;
+
+      socket.addEventListener('open', () => {
+        opened = true;
+        resolve();
+      });
+      socket.addEventListener('error', () => {
+        if (!opened) reject(new ProtocolError('connect-failed', url));
+      });
+      socket.addEventListener('close', () => {
+        if (this.socket === socket) this.socket = null;
+        if (opened) this.listener.onDisconnect();
+      });
+      socket.addEventListener('message', (event) => {
+        try {
+          this.listener.onMessage(parseMessage<ServerMessage>(String(event.data)));
+        } catch (err) {
+          console.error('Mensaje del relevo no válido:', err);
+        }
+      });
+    });
+  }
+
+  send(message: ClientMessage) {
+    if (!this.connected) {
+      console.warn('Sin conexión con el relevo, mensaje descartado:', message.type);
+      return;
+    }
+    this.socket?.send(JSON.stringify(message));
+  }
+
+  close() {
+    this.socket?.close();
+    this.socket = null;
+  }
+}
+
+// Reconstruye la partida de la sala jugada a jugada, validándola con chess.js
+export function gameFromRoomState(state: RoomState): Chess {
+  const game = new Chess(state.startFen);
+  for (const move of state.moves) {
+    try {
+      game.move(move);
+    } catch {
+      throw new GameRecordError('room-illegal-move', `${move.from}${move.to}`);
+    }
+  }
+  if (game.fen() !== state.fen) {
+    throw new GameRecordError('room-mismatch');
+  }
+  return game;
+}
+
+// Reloj de la sala tal y como lo manda el relevo: no corre hasta la primera jugada ni tras el resultado
+export function clockFromRoomState(state: RoomState, game: Chess, now: number): ClockState | null {
+  if (state.timeControl === 'none' || !state.clock) return null;
+  const running = state.result || state.moves.length === 0 ? null : game.turn();
+  return restoreClock(TIME_CONTROLS[state.timeControl], state.clock, running, now);
+}
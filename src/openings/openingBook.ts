@@ -0,0 +1,120 @@
+import { Chess, type PieceSymbol, type Square } from 'chess.js';
+import bundledPgn from './eco.pgn?raw';
+
+// `name` es el nombre en inglés (el de la clasificación ECO); el catálogo de mensajes elige
+// cuál mostrar (i18n/messages.ts)
+export interface Opening {
+  eco: string;
+  name: string;
+  nameEs: string | null;
+}
+
+// Continuación del libro desde una posición
+export interface BookMove {
+  san: string;
+  from: Square;
+  to: Square;
+  promotion?: PieceSymbol;
+  count: number; // líneas del libro que la juegan (no cuánto se juega en partidas reales)
+}
+
+interface BookEntry {
+  opening: Opening | null;
+  moves: Map<string, BookMove>;
+}
+
+// De cada partida solo cuentan las primeras jugadas: así también sirve una colección de partidas completas
+const MAX_BOOK_PLY = 30;
+
+// Sin los contadores de jugadas, para que las transposiciones compartan entrada
+function positionKey(fen: string): string {
+  return fen.split(' ').slice(0, 4).join(' ');
+}
+
+// ────────────────────────────────────────────────
+// Libro de aperturas indexado por posición
+// ────────────────────────────────────────────────
+export class OpeningBook {
+  private entries = new Map<string, BookEntry>();
+
+  private entry(fen: string): BookEntry {
+    const key = positionKey(fen);
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = { opening: null, moves: new Map() };
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  // Añade una partida; si trae nombre de apertura, se asocia a su posición final
+  addLine(game: Chess, opening: Opening | null) {
+    const history = game.history({ verbose: true }).slice(0, MAX_BOOK_PLY);
+    history.forEach((move) => {
+      const moves = this.entry(move.before).moves;
+      const known = moves.get(move.san);
+      moves.set(move.san, known
+        ? { ...known, count: known.count + 1 }
+        : { san: move.san, from: move.from, to: move.to, promotion: move.promotion, count: 1 });
+    });
+    if (opening && history.length > 0) this.entry(history[history.length - 1].after).opening = opening;
+  }
+
+  // Continuaciones del libro, de más a menos líneas que las siguen
+  movesAt(fen: string): BookMove[] {
+    const moves = this.entries.get(positionKey(fen))?.moves;
+    return moves ? [...moves.values()].sort((a, b) => b.count - a.count) : [];
+  }
+
+  // Apertura de la posición con nombre más avanzada de la partida (se mantiene al salir del libro)
+  openingAt(positions: string[]): Opening | null {
+    for (let i = positions.length - 1; i >= 0; i--) {
+      const opening = this.entries.get(positionKey(positions[i]))?.opening;
+      if (opening) return opening;
+    }
+    return null;
+  }
+}
+
+// PGN con una partida por línea de apertura y las cabeceras ECO, Opening y (opcionales) Variation
+// y sus nombres en español, OpeningEs y VariationEs.
+// Las partidas que no se pueden leer o que no empiezan en la posición inicial se ignoran.
+export function parseOpeningBook(pgn: string): OpeningBook {
+  const book = new OpeningBook();
+  const text = pgn.split(/\r?\n/).filter((line) => !line.startsWith('%')).join('\n');
+  text.split(/\n\s*\n(?=\s*\[)/).forEach((chunk) => {
+    if (!chunk.trim()) return;
+    const game = new Chess();
+    try {
+      game.loadPgn(chunk);
+    } catch {
+      return;
+    }
+    const headers = game.getHeaders();
+    if (headers.FEN) return;
+    const name = [headers.Opening, headers.Variation].filter(Boolean).join(': ');
+    const nameEs = [headers.OpeningEs, headers.VariationEs ?? headers.Variation].filter(Boolean).join(', ');
+    book.addLine(game, name ? { eco: headers.ECO ?? '', name, nameEs: headers.OpeningEs ? nameEs : null } : null);
+  });
+  return book;
+}
+
+let bundledBook: OpeningBook | null = null;
+
+// Libro incluido en la aplicación (src/openings/eco.pgn); se lee la primera vez que se pide
+export function bundledOpeningBook(): OpeningBook {
+  bundledBook ??= parseOpeningBook(bundledPgn);
+  return bundledBook;
+}
+
+// Elige una continuación al azar con probabilidad proporcional a sus líneas del libro: las
+// jugadas principales tienen muchas y las secundarias (1.b4, 1.g4...) apenas una
+export function chooseBookMove(moves: BookMove[], random: () => number = Math.random): BookMove | null {
+  const total = moves.reduce((sum, move) => sum + move.count, 0);
+  let pick = random() * total;
+  for (const move of moves) {
+    pick -= move.count;
+    if (pick < 0) return move;
+  }
+  return null;
+}
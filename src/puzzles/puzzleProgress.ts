@@ -0,0 +1,73 @@
+import type { Puzzle, PuzzleSet } from './puzzles';
+
+export interface ThemeStats {
+  attempts: number;
+  solved: number;
+}
+
+// Progreso del entrenamiento: cuenta el primer intento de cada problema
+export interface PuzzleProgress {
+  results: Record<string, boolean>; // problema → resuelto sin fallos
+  streak: number; // problemas seguidos resueltos sin fallos
+  bestStreak: number;
+  themes: Record<string, ThemeStats>;
+}
+
+export const EMPTY_PROGRESS: PuzzleProgress = { results: {}, streak: 0, bestStreak: 0, themes: {} };
+
+const STORAGE_KEY = 'ajedrezAR.puzzleProgress';
+
+// Los identificadores solo son únicos dentro de cada colección
+export function puzzleKey(set: PuzzleSet, puzzle: Puzzle): string {
+  return `${set.name}/${puzzle.id}`;
+}
+
+// Solo cuenta el primer intento: repetir un problema ya hecho no cambia el progreso
+export function recordPuzzleResult(progress: PuzzleProgress, key: string, puzzle: Puzzle, solved: boolean): PuzzleProgress {
+  if (key in progress.results) return progress;
+  const streak = solved ? progress.streak + 1 : 0;
+  const themes = { ...progress.themes };
+  puzzle.themes.forEach((theme) => {
+    const stats = themes[theme] ?? { attempts: 0, solved: 0 };
+    themes[theme] = { attempts: stats.attempts + 1, solved: stats.solved + (solved ? 1 : 0) };
+  });
+  return {
+    results: { ...progress.results, [key]: solved },
+    streak,
+    bestStreak: Math.max(progress.bestStreak, streak),
+    themes,
+  };
+}
+
+// Primer problema de la colección que aún no se ha intentado (o el primero si ya se hicieron todos)
+export function firstPendingPuzzle(progress: PuzzleProgress, set: PuzzleSet): number {
+  const index = set.puzzles.findIndex((puzzle) => !(puzzleKey(set, puzzle) in progress.results));
+  return Math.max(index, 0);
+}
+
+// ────────────────────────────────────────────────
+// Persistencia
+// ────────────────────────────────────────────────
+export function loadPuzzleProgress(): PuzzleProgress {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return EMPTY_PROGRESS;
+    const parsed = JSON.parse(raw) as Partial<PuzzleProgress>;
+    return {
+      results: parsed.results ?? {},
+      streak: parsed.streak ?? 0,
+      bestStreak: parsed.bestStreak ?? 0,
+      themes: parsed.themes ?? {},
+    };
+  } catch {
+    return EMPTY_PROGRESS;
+  }
+}
+
+export function savePuzzleProgress(progress: PuzzleProgress) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(progress));
+}
+
+export function clearPuzzleProgress() {
+  localStorage.removeItem(STORAGE_KEY);
+}
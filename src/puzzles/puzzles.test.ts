@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_PROGRESS, puzzleKey, recordPuzzleResult } from './puzzleProgress';
+import { parsePuzzleFile, PuzzleFormatError } from './puzzles';
+
+const START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+// Tras 1.e4 e5 2.Ac4 Cc6 3.Dh5, juegan negras
+const SCHOLAR = 'r1bqkbnr/pppp1ppp/2n5/4p2Q/2B1P3/8/PPPP1PPP/RNB1K1NR b KQkq - 3 3';
+
+describe('parsePuzzleFile (CSV de Lichess)', () => {
+  it('lee campos entre comillas con comas y comillas dobladas', () => {
+    const text = [
+      'PuzzleId,FEN,Moves,Rating,RatingDeviation,Popularity,NbPlays,Themes,GameUrl,OpeningTags',
+      `"mate1","${SCHOLAR}","g8f6 h5f7",812,75,95,1200,"mate mateIn1 short","https://lichess.org/abc?a=1,b=""2""",Italian_Game`,
+    ].join('\n');
+    const set = parsePuzzleFile('lichess.csv', text);
+    expect(set).toMatchObject({ name: 'lichess', skipped: 0 });
+    expect(set.puzzles).toHaveLength(1);
+    expect(set.puzzles[0]).toMatchObject({ id: 'mate1', rating: 812, themes: ['mate', 'mateIn1', 'short'] });
+  });
+
+  it('la primera jugada es del rival y solo coloca la posición', () => {
+    const [puzzle] = parsePuzzleFile('lichess.csv', `mate1,${SCHOLAR},g8f6 h5f7,812,75,95,1200,mate mateIn1`).puzzles;
+    expect(puzzle.fen).toBe('r1bqkb1r/pppp1ppp/2n2n2/4p2Q/2B1P3/8/PPPP1PPP/RNB1K1NR w KQkq - 4 4');
+    expect(puzzle.color).toBe('w');
+    expect(puzzle.solution).toEqual([{ from: 'h5', to: 'f7', promotion: undefined, san: 'Qxf7#' }]);
+  });
+
+  it('recorta la solución para que acabe con una jugada del que resuelve', () => {
+    const [puzzle] = parsePuzzleFile('lichess.csv', `line,${START},e2e4 e7e5 g1f3 b8c6 f1c4,1500,75,95,1200,opening`).puzzles;
+    expect(puzzle.color).toBe('b');
+    expect(puzzle.solution.map((move) => move.san)).toEqual(['e5', 'Nf3', 'Nc6']);
+  });
+
+  it('salta las líneas que no se pueden leer y falla si no queda ninguna', () => {
+    const set = parsePuzzleFile('lichess.csv', [`ok,${SCHOLAR},g8f6 h5f7,812`, `ilegal,${SCHOLAR},g8f6 h5h8,812`, `corto,${SCHOLAR},g8f6,812`].join('\n'));
+    expect(set.puzzles.map((puzzle) => puzzle.id)).toEqual(['ok']);
+    expect(set.skipped).toBe(2);
+    expect(() => parsePuzzleFile('lichess.csv', `corto,${SCHOLAR},g8f6,812`)).toThrow(PuzzleFormatError);
+  });
+});
+
+describe('recordPuzzleResult', () => {
+  const set = parsePuzzleFile('lichess.csv', `mate1,${SCHOLAR},g8f6 h5f7,812,75,95,1200,mate mateIn1`);
+  const [puzzle] = set.puzzles;
+  const key = puzzleKey(set, puzzle);
+
+  it('cuenta el intento en la racha y en cada tema', () => {
+    const progress = recordPuzzleResult(EMPTY_PROGRESS, key, puzzle, true);
+    expect(progress).toEqual({
+      results: { 'lichess/mate1': true },
+      streak: 1,
+      bestStreak: 1,
+      themes: { mate: { attempts: 1, solved: 1 }, mateIn1: { attempts: 1, solved: 1 } },
+    });
+  });
+
+  it('se queda con el resultado del primer intento al repetir el problema', () => {
+    const failed = recordPuzzleResult(EMPTY_PROGRESS, key, puzzle, false);
+    const retried = recordPuzzleResult(failed, key, puzzle, true);
+    expect(retried).toBe(failed);
+    expect(retried.results[key]).toBe(false);
+    expect(retried.streak).toBe(0);
+  });
+});
@@ -0,0 +1,172 @@
+import { Chess, type Color, type Move, type PieceSymbol, type Square } from 'chess.js';
+
+export interface PuzzleMove {
+  from: Square;
+  to: Square;
+  promotion?: PieceSymbol;
+  san: string;
+}
+
+// Un problema empieza con el jugador al turno; las jugadas impares de la solución son las respuestas del rival
+export interface Puzzle {
+  id: string;
+  fen: string;
+  color: Color; // lado que resuelve
+  solution: PuzzleMove[];
+  themes: string[];
+  rating: number | null;
+}
+
+export interface PuzzleSet {
+  name: string;
+  puzzles: Puzzle[];
+  skipped: number; // líneas que no se pudieron leer
+}
+
+export type PuzzleFormatErrorCode = 'no-solution' | 'missing-fields' | 'missing-solution' | 'empty-file' | 'no-puzzles';
+
+// El texto de cada motivo está en el catálogo de mensajes (errors.puzzle en i18n/messages.ts)
+export class PuzzleFormatError extends Error {
+  readonly code: PuzzleFormatErrorCode;
+  readonly detail: string; // dato concreto que completa el texto (puede estar vacío)
+
+  constructor(code: PuzzleFormatErrorCode, detail = '') {
+    super(detail ? `${code}: ${detail}` : code);
+    this.name = 'PuzzleFormatError';
+    this.code = code;
+    this.detail = detail;
+  }
+}
+
+const UCI_MOVE = /^([a-h][1-8])([a-h][1-8])([qrbn])?$/;
+
+// Juega una jugada en SAN o UCI; lanza si no es legal
+function playToken(chess: Chess, token: string): Move {
+  const uci = UCI_MOVE.exec(token);
+  return uci
+    ? chess.move({ from: uci[1], to: uci[2], promotion: uci[3] })
+    : chess.move(token);
+}
+
+// `setupMoves` jugadas del principio de la línea son del rival y solo colocan la posición
+function buildPuzzle(id: string, fen: string, line: string[], themes: string[], rating: number | null, setupMoves: number): Puzzle {
+  const chess = new Chess(fen);
+  line.slice(0, setupMoves).forEach((token) => playToken(chess, token));
+  const start = chess.fen();
+  const solution = line.slice(setupMoves).map((token) => {
+    const move = playToken(chess, token);
+    return { from: move.from, to: move.to, promotion: move.promotion, san: move.san };
+  });
+  if (solution.length === 0) throw new PuzzleFormatError('no-solution');
+  // La solución termina con una jugada del que resuelve: una respuesta final del rival no hay que
+  // adivinarla y, si se quedara, el problema no llegaría a darse por resuelto
+  if (solution.length % 2 === 0) solution.pop();
+  return { id, fen: start, color: start.split(' ')[1] as Color, solution, themes, rating };
+}
+
+// ────────────────────────────────────────────────
+// EPD: 4 campos de FEN y operaciones `id "…"; pv …;` o `bm …;` y `c0 "temas"`
+// ────────────────────────────────────────────────
+function parseEpdLine(line: string, index: number): Puzzle {
+  const fields = line.split(/\s+/);
+  if (fields.length < 5) throw new PuzzleFormatError('missing-fields');
+  const fen = `${fields.slice(0, 4).join(' ')} 0 1`;
+  const operations = new Map<string, string>();
+  fields.slice(4).join(' ').split(';').forEach((operation) => {
+    const match = /^\s*(\w+)\s*(.*?)\s*$/.exec(operation);
+    if (match) operations.set(match[1], match[2].replace(/^"(.*)"$/, '$1'));
+  });
+  const variation = operations.get('pv') ?? operations.get('bm')?.split(/\s+/)[0];
+  if (!variation) throw new PuzzleFormatError('missing-solution');
+  const moves = variation.split(/\s+/).filter((token) => token && !/^\d+\.+$/.test(token));
+  const themes = (operations.get('c0') ?? '').split(/[\s,]+/).filter(Boolean);
+  return buildPuzzle(operations.get('id') ?? `${index + 1}`, fen, moves, themes, null, 0);
+}
+
+// ────────────────────────────────────────────────
+// CSV con el formato de la base de problemas de Lichess (cabecera opcional):
+// PuzzleId,FEN,Moves,Rating,RatingDeviation,Popularity,NbPlays,Themes,…
+// La primera jugada de Moves es la del rival que lleva a la posición del problema
+// ────────────────────────────────────────────────
+const LICHESS_COLUMNS = ['puzzleid', 'fen', 'moves', 'rating', 'ratingdeviation', 'popularity', 'nbplays', 'themes'];
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === ',' && !quoted) {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells.map((value) => value.trim());
+}
+
+function parseCsv(lines: string[]): { puzzles: Puzzle[]; skipped: number } {
+  const first = splitCsvLine(lines[0]).map((name) => name.toLowerCase());
+  const hasHeader = first.includes('fen');
+  const columns = hasHeader ? first : LICHESS_COLUMNS;
+  const column = (name: string) => columns.indexOf(name);
+  const puzzles: Puzzle[] = [];
+  let skipped = 0;
+  (hasHeader ? lines.slice(1) : lines).forEach((line, index) => {
+    const cells = splitCsvLine(line);
+    try {
+      const rating = Number(cells[column('rating')]);
+      puzzles.push(buildPuzzle(
+        cells[column('puzzleid')] || `${index + 1}`,
+        cells[column('fen')],
+        (cells[column('moves')] ?? '').split(/\s+/).filter(Boolean),
+        (cells[column('themes')] ?? '').split(/\s+/).filter(Boolean),
+        Number.isFinite(rating) && rating > 0 ? rating : null,
+        1,
+      ));
+    } catch {
+      skipped++;
+    }
+  });
+  return { puzzles, skipped };
+}
+
+export function parsePuzzleFile(name: string, text: string): PuzzleSet {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter((line) => line && !line.startsWith('#'));
+  if (lines.length === 0) throw new PuzzleFormatError('empty-file');
+
+  // Sin extensión conocida, una línea con varias comas es CSV (en EPD solo aparecen dentro de c0)
+  const csv = /\.csv$/i.test(name) || (!/\.epd$/i.test(name) && lines[0].split(',').length > 2);
+  let result: { puzzles: Puzzle[]; skipped: number };
+  if (csv) {
+    result = parseCsv(lines);
+  } else {
+    result = { puzzles: [], skipped: 0 };
+    lines.forEach((line, index) => {
+      try {
+        result.puzzles.push(parseEpdLine(line, index));
+      } catch {
+        result.skipped++;
+      }
+    });
+  }
+  if (result.puzzles.length === 0) throw new PuzzleFormatError('no-puzzles');
+  return { name: name.replace(/\.(epd|csv|txt)$/i, ''), ...result };
+}
+
+// Acierta si hace la jugada de la solución o si da mate (cualquier mate resuelve el problema)
+export function isSolutionMove(puzzle: Puzzle, ply: number, move: Move, after: Chess): boolean {
+  const expected = puzzle.solution[ply];
+  if (!expected) return false;
+  const same = move.from === expected.from && move.to === expected.to && move.promotion === expected.promotion;
+  return same || after.isCheckmate();
+}
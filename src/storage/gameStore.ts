@@ -0,0 +1,89 @@
+import type { Color } from 'chess.js';
+import type { GameMode, GameResult } from '../board/record';
+import type { TimeControlId } from '../clock/chessClock';
+import type { Difficulty } from '../engine/stockfish';
+
+// Una partida guardada. El PGN basta para reconstruirla; el resto evita tener
+// que cargarlo para pintar la lista y guarda lo que el PGN no sabe (reloj, modo...)
+export interface SavedGame {
+  id: string;
+  createdAt: number; // Date.now()
+  updatedAt: number;
+  pgn: string;
+  fen: string;
+  moves: string[]; // SAN
+  mode: GameMode;
+  difficulty: Difficulty;
+  playerColor: Color;
+  timeControlId: TimeControlId;
+  clock: { remaining: Record<Color, number>; running: Color | null } | null;
+  result: GameResult; // '*' = sin terminar
+}
+
+export class StorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+const DB_NAME = 'ajedrezAR';
+const DB_VERSION = 1;
+const STORE = 'games';
+
+export function newGameId(): string {
+  return crypto.randomUUID();
+}
+
+// ────────────────────────────────────────────────
+// IndexedDB
+// ────────────────────────────────────────────────
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new StorageError('Este navegador no permite guardar partidas'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+      store.createIndex('updatedAt', 'updatedAt');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new StorageError(`No se pudo abrir la base de datos: ${request.error?.message}`));
+  });
+  // Si falla (p. ej. navegación privada), volver a intentarlo en la próxima llamada
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+}
+
+async function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new StorageError(request.error?.message ?? 'Error de IndexedDB'));
+  });
+}
+
+export async function saveGame(game: SavedGame): Promise<void> {
+  await run('readwrite', (store) => store.put(game));
+}
+
+// La más reciente primero
+export async function listGames(): Promise<SavedGame[]> {
+  const games = await run<SavedGame[]>('readonly', (store) => store.index('updatedAt').getAll());
+  return games.reverse();
+}
+
+export async function deleteGame(id: string): Promise<void> {
+  await run('readwrite', (store) => store.delete(id));
+}
+
+// La última partida sin terminar, para ofrecer retomarla al arrancar
+export async function latestUnfinishedGame(): Promise<SavedGame | null> {
+  const games = await listGames();
+  return games.find((game) => game.result === '*' && game.moves.length > 0) ?? null;
+}
@@ -0,0 +1,54 @@
+import { Chess, type Square } from 'chess.js';
+import { describe, expect, it } from 'vitest';
+import { inferMove, movedSquares, type MoveInference } from './boardVision';
+
+const START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const CASTLING = 'r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1';
+const EN_PASSANT = '4k3/8/8/3pP3/8/8/8/4K3 w - d6 0 1';
+const PROMOTION = '8/P7/7k/8/8/8/8/4K3 w - - 0 1';
+
+function movesAt(fen: string) {
+  return new Chess(fen).moves({ verbose: true });
+}
+
+// Resultado de la inferencia en SAN, para comparar con la tabla
+function summary(inference: MoveInference) {
+  switch (inference.type) {
+    case 'move': return { type: 'move', sans: [inference.move.san] };
+    case 'ambiguous': return { type: 'ambiguous', sans: inference.moves.map((move) => move.san).sort() };
+    case 'unknown': return { type: 'unknown', sans: [] };
+  }
+}
+
+describe('movedSquares', () => {
+  it.each<[string, string, string, Square[]]>([
+    ['jugada normal', START, 'e4', ['e2', 'e4']],
+    ['enroque corto', CASTLING, 'O-O', ['e1', 'g1', 'h1', 'f1']],
+    ['enroque largo', CASTLING, 'O-O-O', ['e1', 'c1', 'a1', 'd1']],
+    ['captura al paso', EN_PASSANT, 'exd6', ['e5', 'd6', 'd5']],
+  ])('%s', (_, fen, san, squares) => {
+    const move = movesAt(fen).find((item) => item.san === san);
+    expect(move && movedSquares(move)).toEqual(squares);
+  });
+});
+
+describe('inferMove', () => {
+  it.each<[string, string, Square[], ReturnType<typeof summary>]>([
+    ['coincidencia exacta', START, ['e2', 'e4'], { type: 'move', sans: ['e4'] }],
+    ['el orden de las casillas no importa', START, ['f3', 'g1'], { type: 'move', sans: ['Nf3'] }],
+    ['enroque: cuatro casillas', CASTLING, ['h1', 'f1', 'g1', 'e1'], { type: 'move', sans: ['O-O'] }],
+    ['captura al paso: tres casillas', EN_PASSANT, ['e5', 'd5', 'd6'], { type: 'move', sans: ['exd6'] }],
+    ['una casilla de más se confirma', START, ['e2', 'e4', 'h7'], { type: 'ambiguous', sans: ['e4'] }],
+    ['una casilla de menos con varias jugadas posibles', START, ['e2'], { type: 'ambiguous', sans: ['e3', 'e4'] }],
+    ['la coronación siempre se confirma', PROMOTION, ['a7', 'a8'], { type: 'ambiguous', sans: ['a8=B', 'a8=N', 'a8=Q', 'a8=R'] }],
+    ['enroque con una casilla sin ver', CASTLING, ['e1', 'g1', 'f1'], { type: 'ambiguous', sans: ['Kf1', 'O-O'] }],
+    ['casillas que no explica ninguna jugada', START, ['a1', 'h8', 'd4'], { type: 'unknown', sans: [] }],
+    ['nada cambiado', START, [], { type: 'unknown', sans: [] }],
+  ])('%s', (_, fen, changed, expected) => {
+    expect(summary(inferMove(changed, movesAt(fen)))).toEqual(expected);
+  });
+
+  it('sin jugadas legales no reconoce nada', () => {
+    expect(inferMove(['e2', 'e4'], [])).toEqual({ type: 'unknown' });
+  });
+});
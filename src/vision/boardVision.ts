@@ -0,0 +1,165 @@
+import { SQUARES, type Move, type Square } from 'chess.js';
+import { squareCell, type BoardOrientation } from '../board/geometry';
+import { applyHomography, type Homography } from '../calibration/homography';
+
+// ────────────────────────────────────────────────
+// Reconocimiento de jugadas en un tablero real, sin modelos: se compara el color medio
+// y el contraste de cada casilla entre la posición de antes y la de después
+// ────────────────────────────────────────────────
+
+// Color medio (0-255) y contraste (desviación de la luminancia) del centro de una casilla.
+// Una pieza cambia el color y añade bordes; una casilla vacía es casi lisa.
+export interface SquareSample {
+  r: number;
+  g: number;
+  b: number;
+  contrast: number;
+}
+
+export type BoardSamples = Record<Square, SquareSample>;
+
+// Puntos por lado muestreados en el centro de cada casilla (se evita el borde, que cambia con la perspectiva)
+const GRID = 7;
+const MARGIN = 0.2;
+
+// Diferencias a partir de las cuales una casilla cuenta como cambiada
+const COLOR_CHANGE = 28;
+const CONTRAST_CHANGE = 12;
+// Movimiento entre fotogramas consecutivos por debajo del cual la escena está quieta
+const STILL_COLOR = 10;
+const STILL_MS = 700;
+
+// Muestrea las 64 casillas de una imagen de la cámara a través de la región calibrada
+export function sampleSquares(image: ImageData, boardToCamera: Homography, orientation: BoardOrientation): BoardSamples {
+  const { data, width, height } = image;
+  const samples = {} as BoardSamples;
+  SQUARES.forEach((square) => {
+    const { col, row } = squareCell(square, orientation);
+    let r = 0, g = 0, b = 0, luma = 0, luma2 = 0, count = 0;
+    for (let i = 0; i < GRID; i++) {
+      for (let j = 0; j < GRID; j++) {
+        const u = (col + MARGIN + (1 - 2 * MARGIN) * (i + 0.5) / GRID) / 8;
+        const v = (row + MARGIN + (1 - 2 * MARGIN) * (j + 0.5) / GRID) / 8;
+        const p = applyHomography(boardToCamera, { x: u, y: v });
+        const x = Math.floor(p.x * width);
+        const y = Math.floor(p.y * height);
+        if (x < 0 || x >= width || y < 0 || y >= height) continue;
+        const k = (y * width + x) * 4;
+        const l = 0.299 * data[k] + 0.587 * data[k + 1] + 0.114 * data[k + 2];
+        r += data[k];
+        g += data[k + 1];
+        b += data[k + 2];
+        luma += l;
+        luma2 += l * l;
+        count++;
+      }
+    }
+    const n = Math.max(count, 1);
+    samples[square] = {
+      r: r / n,
+      g: g / n,
+      b: b / n,
+      contrast: Math.sqrt(Math.max(0, luma2 / n - (luma / n) ** 2)),
+    };
+  });
+  return samples;
+}
+
+function colorDistance(a: SquareSample, b: SquareSample): number {
+  return Math.hypot(a.r - b.r, a.g - b.g, a.b - b.b);
+}
+
+// Cuánto ha cambiado una casilla: 1 o más = cambio claro
+function squareChange(a: SquareSample, b: SquareSample): number {
+  return Math.max(colorDistance(a, b) / COLOR_CHANGE, Math.abs(a.contrast - b.contrast) / CONTRAST_CHANGE);
+}
+
+// ────────────────────────────────────────────────
+// Vigilante del tablero: espera a que la escena se quede quieta y la compara con la referencia
+// ────────────────────────────────────────────────
+export class BoardWatcher {
+  // Aspecto del tablero en la última posición aceptada
+  private baseline: BoardSamples | null = null;
+  private previous: BoardSamples | null = null;
+  private stillSince: number | null = null;
+  // Cada periodo de quietud se evalúa una sola vez
+  private evaluated = false;
+
+  // Devuelve las casillas que han cambiado respecto a la referencia cuando la escena lleva STILL_MS quieta
+  // (una sola vez por periodo de quietud); null mientras se mueve o si ya se evaluó.
+  // Sin referencia, la primera escena quieta pasa a serlo.
+  update(samples: BoardSamples, handVisible: boolean, timestamp: number): Square[] | null {
+    const previous = this.previous;
+    this.previous = samples;
+    const moving = handVisible || !previous || SQUARES.some((square) => colorDistance(samples[square], previous[square]) > STILL_COLOR);
+    if (moving) {
+      this.stillSince = null;
+      this.evaluated = false;
+      return null;
+    }
+    this.stillSince ??= timestamp;
+    if (this.evaluated || timestamp - this.stillSince < STILL_MS) return null;
+    this.evaluated = true;
+
+    const baseline = this.baseline;
+    if (!baseline) {
+      this.baseline = samples;
+      return null;
+    }
+    const changed = SQUARES.filter((square) => squareChange(baseline[square], samples[square]) >= 1);
+    // Sin cambios se renueva la referencia, para seguir los cambios lentos de luz
+    if (changed.length === 0) this.baseline = samples;
+    return changed;
+  }
+
+  // La escena actual pasa a ser la referencia (la jugada se ha aceptado)
+  accept() {
+    if (this.previous) this.baseline = this.previous;
+  }
+
+  reset() {
+    this.baseline = null;
+    this.previous = null;
+    this.stillSince = null;
+    this.evaluated = false;
+  }
+}
+
+// ────────────────────────────────────────────────
+// De casillas cambiadas a jugada legal
+// ────────────────────────────────────────────────
+export type MoveInference =
+  | { type: 'move'; move: Move }
+  | { type: 'ambiguous'; moves: Move[] } // hay que confirmar cuál
+  | { type: 'unknown' };
+
+// Como mucho se ofrecen estas jugadas para confirmar
+const MAX_CANDIDATES = 4;
+
+// Casillas cuyo contenido cambia con una jugada
+export function movedSquares(move: Move): Square[] {
+  const rank = move.from[1];
+  if (move.isKingsideCastle()) return [move.from, move.to, `h${rank}` as Square, `f${rank}` as Square];
+  if (move.isQueensideCastle()) return [move.from, move.to, `a${rank}` as Square, `d${rank}` as Square];
+  if (move.isEnPassant()) return [move.from, move.to, `${move.to[0]}${rank}` as Square];
+  return [move.from, move.to];
+}
+
+// Elige entre `moves` la que explica las casillas cambiadas. Si ninguna encaja exactamente,
+// las que fallan en una sola casilla se ofrecen para confirmar; una coronación siempre se confirma.
+export function inferMove(changed: Square[], moves: Move[]): MoveInference {
+  const changedSet = new Set(changed);
+  const mismatch = (move: Move) => {
+    const squares = movedSquares(move);
+    const missing = squares.filter((square) => !changedSet.has(square)).length;
+    const extra = changed.filter((square) => !squares.includes(square)).length;
+    return missing + extra;
+  };
+  const scored = moves.map((move) => ({ move, mismatch: mismatch(move) }));
+  const best = Math.min(...scored.map((item) => item.mismatch));
+  if (!Number.isFinite(best) || best > 1) return { type: 'unknown' };
+
+  const candidates = scored.filter((item) => item.mismatch === best).map((item) => item.move);
+  if (best === 0 && candidates.length === 1) return { type: 'move', move: candidates[0] };
+  return { type: 'ambiguous', moves: candidates.slice(0, MAX_CANDIDATES) };
+}
@@ -0,0 +1,40 @@
+import { HandLandmarker } from '@mediapipe/tasks-vision';
+import wasmLoaderPath from '@mediapipe/tasks-vision-wasm/vision_wasm_module_internal.js?url';
+import wasmBinaryPath from '@mediapipe/tasks-vision-wasm/vision_wasm_module_internal.wasm?url';
+
+export type Delegate = 'GPU' | 'CPU';
+
+// El modelo se sirve desde public/models/ (ver `npm run fetch:models`; el build falla sin él)
+export const HAND_MODEL_PATH = `${import.meta.env.BASE_URL}models/hand_landmarker.task`;
+
+export interface LoadedHandLandmarker {
+  landmarker: HandLandmarker;
+  delegate: Delegate;
+}
+
+// ────────────────────────────────────────────────
+// Carga de MediaPipe HandLandmarker sin recursos externos
+// ────────────────────────────────────────────────
+// Intenta primero con GPU y, si falla la inicialización (WebGL no disponible,
+// drivers bloqueados...), repite con CPU. Solo lanza error si fallan ambos.
+// Se usa la versión ES module del cargador WASM, que MediaPipe importa con import()
+// dentro del worker de módulo (esa versión da por hecho que hay SIMD).
+export async function loadHandLandmarker(): Promise<LoadedHandLandmarker> {
+  const fileset = { wasmLoaderPath, wasmBinaryPath };
+
+  let lastError: unknown;
+  for (const delegate of ['GPU', 'CPU'] as const) {
+    try {
+      const landmarker = await HandLandmarker.createFromOptions(fileset, {
+        baseOptions: { modelAssetPath: HAND_MODEL_PATH, delegate },
+        numHands: 4, // dos jugadores con las dos manos (dos palmas)
+        runningMode: 'VIDEO',
+      });
+      return { landmarker, delegate };
+    } catch (err) {
+      console.warn(`No se pudo iniciar HandLandmarker con ${delegate}:`, err);
+      lastError = err;
+    }
+  }
+  throw lastError;
+}
@@ -0,0 +1,128 @@
+import type { Color } from 'chess.js';
+import type { ArScene } from '../calibration/arOverlay';
+import type { DetectedHand } from '../gestures/handAssignment';
+import type { Delegate } from './handLandmarker';
+import type { TrackerConfig, TrackerFrame, TrackerRequest, TrackerResponse } from './trackingProtocol';
+
+// Rendimiento del seguimiento, medido sobre los fotogramas de cámara del último segundo
+export interface TrackerStats {
+  fps: number;
+  latencyMs: number; // desde la captura del fotograma hasta recibir el resultado
+  inferenceMs: number; // solo el modelo de manos
+}
+
+export interface HandTrackerListener {
+  onReady(delegate: Delegate): void;
+  onError(message: string): void;
+  onFrame(frame: TrackerFrame): void;
+  onStats(stats: TrackerStats): void;
+}
+
+const STATS_INTERVAL_MS = 1000;
+
+// ────────────────────────────────────────────────
+// Cliente del worker de seguimiento de manos (vision/handTracking.worker.ts)
+// ────────────────────────────────────────────────
+export class HandTracker {
+  private worker: Worker;
+  private listener: HandTrackerListener;
+  private ready = false;
+  private configured = false;
+  // Instante de captura del fotograma de cámara en curso: solo se procesa uno a la vez
+  private pendingVideo: number | null = null;
+  private stats = { since: 0, frames: 0, latency: 0, inference: 0 };
+
+  constructor(listener: HandTrackerListener) {
+    this.listener = listener;
+    this.worker = new Worker(new URL('./handTracking.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<TrackerResponse>) => this.handle(event.data);
+    this.worker.onerror = (event) => {
+      event.preventDefault();
+      console.error('Error en el worker de manos:', event.message);
+      this.listener.onError(event.message);
+    };
+    this.post({ type: 'init' });
+  }
+
+  private post(request: TrackerRequest, transfer: Transferable[] = []) {
+    this.worker.postMessage(request, { transfer });
+  }
+
+  private handle(response: TrackerResponse) {
+    switch (response.type) {
+      case 'ready':
+        this.ready = true;
+        this.listener.onReady(response.delegate);
+        break;
+      case 'error':
+        this.listener.onError(response.message);
+        break;
+      case 'skipped':
+        if (response.timestamp === this.pendingVideo) this.pendingVideo = null;
+        break;
+      case 'frame':
+        if (response.frame.timestamp === this.pendingVideo) {
+          this.pendingVideo = null;
+          this.measure(response.frame);
+        }
+        this.listener.onFrame(response.frame);
+        break;
+    }
+  }
+
+  private measure(frame: TrackerFrame) {
+    const now = performance.now();
+    const stats = this.stats;
+    if (stats.frames === 0) stats.since = now;
+    stats.frames++;
+    stats.latency += now - frame.timestamp;
+    stats.inference += frame.inferenceMs;
+
+    const elapsed = now - stats.since;
+    if (elapsed < STATS_INTERVAL_MS) return;
+    this.listener.onStats({
+      fps: (stats.frames - 1) * 1000 / elapsed,
+      latencyMs: stats.latency / stats.frames,
+      inferenceMs: stats.inference / stats.frames,
+    });
+    this.stats = { since: 0, frames: 0, latency: 0, inference: 0 };
+  }
+
+  configure(config: TrackerConfig) {
+    this.configured = true;
+    this.post({ type: 'config', config });
+  }
+
+  setScene(scene: ArScene | null) {
+    this.post({ type: 'scene', scene });
+  }
+
+  // Envía el fotograma actual del vídeo si el anterior ya se procesó. `timestamp` es el instante de captura.
+  sendVideoFrame(video: HTMLVideoElement, timestamp: number) {
+    if (!this.ready || !this.configured || this.pendingVideo !== null) return;
+    this.pendingVideo = timestamp;
+    createImageBitmap(video)
+      .then((bitmap) => this.post({ type: 'video', bitmap, timestamp }, [bitmap]))
+      .catch((err) => {
+        console.error('Error capturando el vídeo:', err);
+        this.pendingVideo = null;
+      });
+  }
+
+  // Fotograma de una grabación: no pasa por el modelo y no cuenta para el rendimiento
+  sendReplayFrame(hands: DetectedHand[], timestamp: number) {
+    this.post({ type: 'replay', hands, timestamp });
+  }
+
+  resetGestures() {
+    this.post({ type: 'reset-gestures' });
+  }
+
+  cancelGrab(side: Color) {
+    this.post({ type: 'cancel-grab', side });
+  }
+
+  terminate() {
+    this.worker.terminate();
+  }
+}
@@ -0,0 +1,206 @@
+import { DrawingUtils, HandLandmarker } from '@mediapipe/tasks-vision';
+import { Chess, type Color } from 'chess.js';
+import { getSquareFromPosition } from '../board/geometry';
+import { applyHomography, type Point } from '../calibration/homography';
+import { drawBoardOnCamera, type ArPiece, type ArScene } from '../calibration/arOverlay';
+import { DEFAULT_CALIBRATION, getTransforms, type CalibrationTransforms } from '../calibration/calibration';
+import { drawCalibrationPoints, drawGridOnCamera } from '../calibration/overlay';
+import { GesturePipeline } from '../gestures/gesturePipeline';
+import { detectedHands, handsBySide, type DetectedHand } from '../gestures/handAssignment';
+import { loadHandLandmarker } from './handLandmarker';
+import { sampleSquares, type BoardSamples } from './boardVision';
+import type { Detections, TrackerConfig, TrackerRequest, TrackerResponse } from './trackingProtocol';
+
+// ────────────────────────────────────────────────
+// Worker de seguimiento de manos: inferencia, dibujo en OffscreenCanvas y gestos,
+// fuera del hilo de React
+// ────────────────────────────────────────────────
+
+const SIDES: Color[] = ['w', 'b'];
+const LANDMARK_COLORS: Record<Color, string> = { w: '#3b82f6', b: '#f97316' };
+
+let landmarker: HandLandmarker | null = null;
+let config: TrackerConfig | null = null;
+let transforms: CalibrationTransforms | null = null;
+let arTransforms: CalibrationTransforms | null = null;
+let canvas: OffscreenCanvas | null = null;
+let ctx: OffscreenCanvasRenderingContext2D | null = null;
+let drawingUtils: DrawingUtils | null = null;
+// Copia limpia de la cámara (sin dibujos encima) para leer sus píxeles
+let sampler: OffscreenCanvasRenderingContext2D | null = null;
+let scene: ArScene | null = null;
+let scenePieces: ArPiece[] = [];
+
+const gestures = new GesturePipeline();
+
+function post(response: TrackerResponse, transfer: Transferable[] = []) {
+  self.postMessage(response, { transfer });
+}
+
+function configure(next: TrackerConfig) {
+  config = next;
+  transforms = getTransforms({ corners: next.calibration }) ?? getTransforms(DEFAULT_CALIBRATION);
+  arTransforms = (next.arSurface && getTransforms({ corners: next.arSurface })) ?? transforms;
+  gestures.configure({ keepGrabOnOpenPalm: next.keepGrabOnOpenPalm });
+  if (!canvas || canvas.width !== next.width || canvas.height !== next.height) {
+    canvas = new OffscreenCanvas(next.width, next.height);
+    ctx = canvas.getContext('2d');
+    drawingUtils = ctx && new DrawingUtils(ctx);
+    sampler = new OffscreenCanvas(next.width, next.height).getContext('2d', { willReadFrequently: true });
+  }
+}
+
+function setScene(next: ArScene | null) {
+  scene = next;
+  scenePieces = next
+    ? new Chess(next.fen).board().flat().filter((piece): piece is ArPiece => piece !== null)
+    : [];
+}
+
+function sampleBoard(image: ImageBitmap): BoardSamples | null {
+  if (!sampler || !config || !transforms) return null;
+  const { width, height } = sampler.canvas;
+  sampler.drawImage(image, 0, 0, width, height);
+  return sampleSquares(sampler.getImageData(0, 0, width, height), transforms.boardToCamera, config.boardOrientation);
+}
+
+function draw(image: ImageBitmap | null, hands: Record<Color, DetectedHand['landmarks'][]>) {
+  if (!canvas || !ctx || !drawingUtils || !config || !transforms) return;
+  const { width, height } = canvas;
+  ctx.save();
+  ctx.clearRect(0, 0, width, height);
+  if (image) {
+    ctx.drawImage(image, 0, 0, width, height);
+  } else {
+    // Reproduciendo una grabación: no hay imagen de cámara
+    ctx.fillStyle = '#111827';
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  if (config.calibrationPoints) {
+    drawCalibrationPoints(ctx, width, height, config.calibrationPoints);
+  } else {
+    if (scene && arTransforms) {
+      drawBoardOnCamera(ctx, width, height, arTransforms.boardToCamera, config.boardOrientation, scene, scenePieces);
+    } else {
+      drawGridOnCamera(ctx, width, height, transforms.boardToCamera);
+    }
+    if (config.twoPlayer && config.handAssignment === 'half') {
+      // Frontera entre la mitad de las blancas y la de las negras
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+      ctx.setLineDash([6, 6]);
+      ctx.beginPath();
+      ctx.moveTo(width / 2, 0);
+      ctx.lineTo(width / 2, height);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+  }
+
+  SIDES.forEach((side) => hands[side].forEach((landmarks) => {
+    const color = config?.twoPlayer ? LANDMARK_COLORS[side] : '#FFEB3B';
+    drawingUtils?.drawLandmarks(landmarks, { color, lineWidth: 2, radius: 6 });
+    drawingUtils?.drawConnectors(landmarks, HandLandmarker.HAND_CONNECTIONS, { color, lineWidth: 5 });
+  }));
+  ctx.restore();
+}
+
+// Devuelve false si aún no hay configuración con la que procesar el fotograma
+function processFrame(
+  detected: DetectedHand[],
+  image: ImageBitmap | null,
+  timestamp: number,
+  detections: Detections | null,
+  squares: BoardSamples | null,
+  inferenceMs: number,
+): boolean {
+  if (!config || !transforms || !canvas) return false;
+  const current = config;
+  const cameraToBoard = transforms.cameraToBoard;
+  const squareAt = (point: Point) => {
+    const boardPoint = applyHomography(cameraToBoard, point);
+    return getSquareFromPosition(boardPoint.x, boardPoint.y, 1, 1, current.boardOrientation);
+  };
+
+  // Contra la IA (y al calibrar) todas las manos son del jugador
+  const hands = handsBySide(
+    detected,
+    current.twoPlayer && !current.calibrationPoints ? current.handAssignment : null,
+    current.playerColor,
+  );
+
+  draw(image, hands);
+
+  const bindings = current.commandsEnabled && !current.calibrationPoints ? current.bindings : null;
+  const result = gestures.process(hands, timestamp, squareAt, bindings);
+
+  const output = canvas.transferToImageBitmap();
+  post({
+    type: 'frame',
+    frame: { ...result, timestamp, image: output, detections, squares, inferenceMs },
+  }, [output]);
+  return true;
+}
+
+async function initialize() {
+  try {
+    const loaded = await loadHandLandmarker();
+    landmarker = loaded.landmarker;
+    post({ type: 'ready', delegate: loaded.delegate });
+  } catch (err) {
+    console.error('Error cargando modelo:', err);
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+}
+
+function handle(request: TrackerRequest) {
+  switch (request.type) {
+    case 'init':
+      initialize();
+      break;
+    case 'config':
+      configure(request.config);
+      break;
+    case 'scene':
+      setScene(request.scene);
+      break;
+    case 'video': {
+      // La app no envía otro fotograma de cámara hasta recibir respuesta de este
+      const { bitmap, timestamp } = request;
+      let processed = false;
+      try {
+        if (landmarker) {
+          const start = performance.now();
+          const result = landmarker.detectForVideo(bitmap, timestamp);
+          const inferenceMs = performance.now() - start;
+          const detections = config?.recording ? { landmarks: result.landmarks, handedness: result.handedness } : null;
+          const squares = config?.boardRecognition ? sampleBoard(bitmap) : null;
+          processed = processFrame(detectedHands(result), bitmap, timestamp, detections, squares, inferenceMs);
+        }
+      } catch (err) {
+        console.error('Error en detección:', err);
+      } finally {
+        bitmap.close();
+        if (!processed) post({ type: 'skipped', timestamp });
+      }
+      break;
+    }
+    case 'replay':
+      processFrame(request.hands, null, request.timestamp, null, null, 0);
+      break;
+    case 'reset-gestures':
+      gestures.reset();
+      break;
+    case 'cancel-grab':
+      gestures.cancelGrab(request.side);
+      break;
+  }
+}
+
+self.onmessage = (event: MessageEvent<TrackerRequest>) => {
+  try {
+    handle(event.data);
+  } catch (err) {
+    console.error('Error en el worker de manos:', err);
+  }
+};
@@ -0,0 +1,59 @@
+import type { HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import type { Color } from 'chess.js';
+import type { BoardOrientation } from '../board/geometry';
+import type { ArScene } from '../calibration/arOverlay';
+import type { Point, Quad } from '../calibration/homography';
+import type { GestureBindings } from '../gestures/commandGestures';
+import type { GestureFrame } from '../gestures/gesturePipeline';
+import type { DetectedHand, HandAssignment } from '../gestures/handAssignment';
+import type { BoardSamples } from './boardVision';
+import type { Delegate } from './handLandmarker';
+
+// Mensajes entre la app y el worker de seguimiento de manos (inferencia, dibujo y gestos)
+
+// Todo lo que el worker necesita saber de la partida para dibujar y traducir gestos
+export interface TrackerConfig {
+  width: number; // tamaño del lienzo de la cámara
+  height: number;
+  calibration: Quad;
+  arSurface: Quad | null; // superficie de la vista AR (null = la misma región que las manos)
+  boardOrientation: BoardOrientation;
+  // Esquinas ya marcadas mientras se calibra (null = no se está calibrando)
+  calibrationPoints: Point[] | null;
+  twoPlayer: boolean;
+  handAssignment: HandAssignment;
+  playerColor: Color;
+  bindings: GestureBindings;
+  commandsEnabled: boolean; // no durante la coronación
+  keepGrabOnOpenPalm: boolean;
+  recording: boolean; // devolver los landmarks de cada fotograma para la grabación
+  boardRecognition: boolean; // muestrear las casillas para reconocer jugadas en un tablero real
+}
+
+export type Detections = Pick<HandLandmarkerResult, 'landmarks' | 'handedness'>;
+
+export type TrackerRequest =
+  | { type: 'init' }
+  | { type: 'config'; config: TrackerConfig }
+  // Vista AR: la partida dibujada sobre la superficie calibrada (null = solo la cuadrícula)
+  | { type: 'scene'; scene: ArScene | null }
+  | { type: 'video'; bitmap: ImageBitmap; timestamp: number }
+  | { type: 'replay'; hands: DetectedHand[]; timestamp: number }
+  | { type: 'reset-gestures' }
+  | { type: 'cancel-grab'; side: Color };
+
+// Resultado de un fotograma: los gestos de los dos lados más la imagen ya dibujada
+export interface TrackerFrame extends GestureFrame {
+  timestamp: number; // instante de captura (performance.now() de la app)
+  image: ImageBitmap; // cámara con la cuadrícula y las manos ya dibujadas
+  detections: Detections | null; // solo si se está grabando
+  squares: BoardSamples | null; // solo con el reconocimiento del tablero real y la cámara en vivo
+  inferenceMs: number;
+}
+
+export type TrackerResponse =
+  | { type: 'ready'; delegate: Delegate }
+  | { type: 'error'; message: string }
+  | { type: 'frame'; frame: TrackerFrame }
+  // Fotograma de cámara sin resultado (modelo sin cargar o error de inferencia)
+  | { type: 'skipped'; timestamp: number };
@@ -1,7 +1,30 @@
-import { defineConfig } from 'vite'
+import { existsSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { MODELS } from './scripts/models'
+
+// Sin el modelo de manos la app compilada no podría seguir las manos: mejor que falle el build
+function requireModels(): Plugin {
+  return {
+    name: 'require-models',
+    apply: 'build',
+    buildStart() {
+      const missing = MODELS.filter(({ file }) => !existsSync(file)).map(({ file }) => file)
+      if (missing.length > 0) {
+        this.error(`Faltan modelos: ${missing.join(', ')}. Descárgalos con \`npm run fetch:models\``)
+      }
+    },
+  }
+}
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), requireModels()],
+  resolve: {
+    alias: {
+      // El paquete no exporta su carpeta wasm/; se empaqueta desde aquí para no depender de un CDN
+      '@mediapipe/tasks-vision-wasm': fileURLToPath(new URL('./node_modules/@mediapipe/tasks-vision/wasm', import.meta.url)),
+    },
+  },
 })